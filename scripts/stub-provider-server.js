@@ -0,0 +1,141 @@
+// Local stub for every AI provider path, for trying the extension without real credentials.
+//
+//   npm run stub-provider            (listens on http://localhost:8787)
+//
+// Options page settings per provider:
+//   OpenAI / OpenAI-compatible: endpoint http://localhost:8787/v1
+//   Azure OpenAI:               endpoint http://localhost:8787, any deployment name and key
+//   IBM watsonx.ai:             endpoint http://localhost:8787, IAM token URL http://localhost:8787/identity/token,
+//                               any project ID and key
+
+const http = require('http');
+
+const PORT = Number(process.env.PORT) || 8787;
+const STUB_TOKEN = 'stub-iam-token';
+
+const cannedReceipt = {
+  vendor_name: { value: 'Stub Coffee Co.', confidence: 0.95 },
+  date_of_expense: { value: '2025-03-14', confidence: 0.9 },
+  total_amount: { value: 44.2, confidence: 0.92 },
+  subtotal: { value: 36.0, confidence: 0.9 },
+  tax: { value: 3.2, confidence: 0.9 },
+  tip: { value: 5.0, confidence: 0.85 },
+  shipping: { value: null, confidence: 0.9 },
+  discount: { value: null, confidence: 0.9 },
+  likely_purchase_type: { value: 'food', confidence: 0.9 },
+  payment_method: { value: 'club_card_no_extra', confidence: 0.85 },
+  description_suggestion: { value: 'Coffee and pastries for the weekly club meeting.', confidence: 0.8 },
+  nyu_event_link_guess: { value: '', confidence: 0 },
+  line_items: [
+    { description: 'Coffee carafe', quantity: 2, unit_price: 12.0, line_total: 24.0, confidence: 0.9 },
+    { description: 'Pastry box', quantity: 1, unit_price: 12.0, line_total: 12.0, confidence: 0.9 }
+  ]
+};
+
+// The options the request allows for a choice field: the enum of a strict JSON schema, else the
+// "one of: A|B" list the prompt gives (json_object mode)
+function allowedValues(body, key) {
+  const schemaEnum = body.response_format?.json_schema?.schema?.properties?.[key]?.properties?.value?.enum;
+  if (Array.isArray(schemaEnum)) return schemaEnum.filter((value) => value !== '');
+  const text = (body.messages || [])
+    .map((message) => (Array.isArray(message.content) ? message.content.map((part) => part.text || '').join(' ') : message.content || ''))
+    .join('\n');
+  const listed = text.match(new RegExp(`"${key}":\\s*\\{"value":\\s*"one of: ([^"]*)"`));
+  return listed ? listed[1].split('|').filter((value) => value !== '') : [];
+}
+
+// The canned receipt, with its purchase type and payment method picked from the request's options
+function receiptFor(body) {
+  const pick = (key, preferred) => {
+    const options = allowedValues(body, key);
+    if (options.length === 0) return preferred;
+    return options.find((option) => option.toLowerCase().includes(preferred.split('_')[0])) || options[0];
+  };
+  return {
+    ...cannedReceipt,
+    likely_purchase_type: { ...cannedReceipt.likely_purchase_type, value: pick('likely_purchase_type', cannedReceipt.likely_purchase_type.value) },
+    payment_method: { ...cannedReceipt.payment_method, value: pick('payment_method', cannedReceipt.payment_method.value) }
+  };
+}
+
+function chatCompletion(model, body) {
+  return {
+    id: 'stub-completion',
+    object: 'chat.completion',
+    model,
+    choices: [{ index: 0, message: { role: 'assistant', content: JSON.stringify(receiptFor(body)) }, finish_reason: 'stop' }],
+    usage: { prompt_tokens: 1200, completion_tokens: 300, total_tokens: 1500 }
+  };
+}
+
+function send(res, status, body) {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Headers': '*'
+  });
+  res.end(JSON.stringify(body));
+}
+
+// A malformed JSON body gets a 400, like the real APIs, instead of crashing the stub
+function parseJsonBody(raw) {
+  try {
+    return JSON.parse(raw || '{}');
+  } catch {
+    return undefined;
+  }
+}
+
+function readBody(req) {
+  return new Promise((resolve) => {
+    let data = '';
+    req.on('data', (chunk) => { data += chunk; });
+    req.on('end', () => resolve(data));
+  });
+}
+
+const server = http.createServer(async (req, res) => {
+  if (req.method === 'OPTIONS') return send(res, 204, {});
+  const url = new URL(req.url, `http://localhost:${PORT}`);
+  const raw = await readBody(req);
+  console.log(`${req.method} ${url.pathname}${url.search}`);
+
+  // OpenAI and OpenAI-compatible servers
+  if (req.method === 'POST' && url.pathname === '/v1/chat/completions') {
+    const body = parseJsonBody(raw);
+    if (!body) return send(res, 400, { error: { message: 'Request body is not valid JSON' } });
+    return send(res, 200, chatCompletion(body.model, body));
+  }
+
+  // Azure OpenAI
+  const azure = url.pathname.match(/^\/openai\/deployments\/([^/]+)\/chat\/completions$/);
+  if (req.method === 'POST' && azure) {
+    if (!req.headers['api-key']) return send(res, 401, { error: { message: 'Missing api-key header' } });
+    if (!url.searchParams.get('api-version')) return send(res, 400, { error: { message: 'Missing api-version' } });
+    const body = parseJsonBody(raw);
+    if (!body) return send(res, 400, { error: { message: 'Request body is not valid JSON' } });
+    return send(res, 200, chatCompletion(decodeURIComponent(azure[1]), body));
+  }
+
+  // IBM Cloud IAM token exchange
+  if (req.method === 'POST' && url.pathname === '/identity/token') {
+    const params = new URLSearchParams(raw);
+    if (!params.get('apikey')) return send(res, 400, { errorMessage: 'Missing apikey' });
+    return send(res, 200, { access_token: STUB_TOKEN, token_type: 'Bearer', expires_in: 3600 });
+  }
+
+  // watsonx.ai chat
+  if (req.method === 'POST' && url.pathname === '/ml/v1/text/chat') {
+    if (req.headers.authorization !== `Bearer ${STUB_TOKEN}`) return send(res, 401, { errors: [{ message: 'Invalid token' }] });
+    const body = parseJsonBody(raw);
+    if (!body) return send(res, 400, { errors: [{ message: 'Request body is not valid JSON' }] });
+    if (!body.project_id) return send(res, 400, { errors: [{ message: 'Missing project_id' }] });
+    return send(res, 200, chatCompletion(body.model_id, body));
+  }
+
+  send(res, 404, { error: { message: `No stub for ${req.method} ${url.pathname}` } });
+});
+
+server.listen(PORT, () => {
+  console.log(`Stub AI provider listening on http://localhost:${PORT}`);
+});
@@ -1,5 +1,15 @@
-import { parseReceiptWithOpenAI } from './utils/openai';
-import { ParsedExpenseData, UserProfile } from './types';
+import { generateDescriptionAlternatives, parseReceiptWithAI } from './utils/receiptParser';
+import { PromptTemplate, SAMPLE_RECEIPT_TEXT, loadPromptTemplate } from './utils/promptTemplates';
+import { ProviderError, createProvider, getFriendlyErrorMessage, isProviderConfigured, loadProviderSettings, throwIfCancelled } from './utils/providers';
+import { applyAmountCrossCheck } from './utils/amountCheck';
+import { buildLocalExpenseData, preParseReceipt, reconcileWithLocalParse } from './utils/localParser';
+import { buildCacheKey, getCachedParse, setCachedParse } from './utils/parseCache';
+import { assertUnderMonthlyCap, recordUsage } from './utils/usageTracker';
+import { formatCorrectionHints, loadCorrections, saveCorrection, selectRelevantCorrections } from './utils/corrections';
+import { loadRedactionSettings, redactReceiptText, shouldSendReceiptImage } from './utils/redaction';
+import { applyEventMatches, loadEngageEvents } from './utils/engageEvents';
+import { DESCRIPTION_PRESETS, buildPresetDescription } from './utils/descriptionPresets';
+import { DescriptionContext, DescriptionPreset, FormOptions, ParsedExpenseData, ProviderSettings, TokenUsage, UserProfile } from './types';
 
 // Open side panel when extension icon is clicked
 // Requires Chrome 114 or later
@@ -15,30 +25,196 @@ chrome.action.onClicked.addListener((tab) => {
   }
 });
 
+// In-flight parses by the requestId the popup sent, so a cancelParse message can abort them
+const activeParses = new Map<string, AbortController>();
+
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   if (message.action === 'parseReceipt') {
-    handleReceiptParsing(message.pdfText, message.userProfile)
+    const controller = new AbortController();
+    if (message.requestId) {
+      activeParses.set(message.requestId, controller);
+    }
+
+    handleReceiptParsing(message.pdfText, message.userProfile, message.receiptImage, message.formOptions, message.descriptionContext, controller.signal, message.bypassCache === true)
+      // Events are matched after the cache, so events seen since the last parse are used
+      .then(async (result) => applyEventMatches(result, await loadEngageEvents(), message.pdfText))
       .then((result) => sendResponse({ success: true, data: result }))
-      .catch((error) => sendResponse({ success: false, error: error.message }));
+      .catch((error) => {
+        console.error('Receipt parsing failed:', error);
+        sendResponse({
+          success: false,
+          error: getFriendlyErrorMessage(error),
+          errorCategory: error instanceof ProviderError ? error.category : undefined
+        });
+      })
+      .finally(() => activeParses.delete(message.requestId));
     return true; // Keep channel open for async response
   }
+
+  if (message.action === 'testPromptTemplate') {
+    testPromptTemplate(message.template, message.userProfile)
+      .then((result) => sendResponse({ success: true, data: result }))
+      .catch((error) => sendResponse({ success: false, error: getFriendlyErrorMessage(error) }));
+    return true;
+  }
+
+  if (message.action === 'regenerateDescriptions') {
+    regenerateDescriptions(message.data, message.userProfile, message.descriptionContext, message.maxLength)
+      .then((descriptions) => sendResponse({ success: true, descriptions }))
+      .catch((error) => sendResponse({ success: false, error: getFriendlyErrorMessage(error) }));
+    return true;
+  }
+
+  if (message.action === 'recordCorrection') {
+    saveCorrection(message.correction)
+      .then(() => sendResponse({ success: true }))
+      .catch((error) => sendResponse({ success: false, error: error.message }));
+    return true;
+  }
+
+  if (message.action === 'cancelParse') {
+    activeParses.get(message.requestId)?.abort();
+    sendResponse({ success: true });
+  }
 });
 
 async function handleReceiptParsing(
   pdfText: string,
-  userProfile: UserProfile
+  userProfile: UserProfile,
+  receiptImage?: string,
+  formOptions?: FormOptions, // Live option labels read from the form, when it's open
+  descriptionContext?: DescriptionContext,
+  signal?: AbortSignal,
+  bypassCache: boolean = false // "Re-analyze" skips the cached result and replaces it
 ): Promise<ParsedExpenseData> {
-  // Get API key from storage
-  const storage = await chrome.storage.sync.get(['openaiApiKey']);
-  const apiKey = storage.openaiApiKey;
+  // Get AI provider settings from storage
+  const providerSettings = await loadProviderSettings();
+
+  // Rule-based pre-parse runs on every receipt to cross-check the model
+  const localParse = preParseReceipt(pdfText);
+  throwIfCancelled(signal);
+
+  if (!isProviderConfigured(providerSettings)) {
+    // Degraded mode - no model available, use the rule-based result on its own
+    console.warn('AI provider not configured. Falling back to the local rule-based parser.');
+    return applyAmountCrossCheck(buildLocalExpenseData(pdfText, localParse, userProfile));
+  }
+
+  // Only the redacted text is sent to the provider (and used for the cache key)
+  const redactionSettings = await loadRedactionSettings();
+  const { text: redactedText } = redactReceiptText(pdfText, redactionSettings);
+  // The photo can't be redacted - it's only sent if the user opted in
+  const sentImage = shouldSendReceiptImage(redactionSettings) ? receiptImage : undefined;
 
-  if (!apiKey) {
-    throw new Error('OpenAI API key not set. Please configure it in the options page.');
+  const template = await loadPromptTemplate();
+  // Past corrections for similar receipts go into the prompt as hints
+  const learnedCorrections = formatCorrectionHints(selectRelevantCorrections(await loadCorrections(), pdfText));
+  const cacheKey = await buildCacheKey({
+    pdfText: redactedText,
+    receiptImage: sentImage,
+    profile: userProfile,
+    hints: learnedCorrections,
+    formOptions,
+    descriptionContext,
+    provider: providerSettings.provider,
+    model: providerSettings.model,
+    promptVersion: template.version
+  });
+  if (!bypassCache) {
+    const cached = await getCachedParse(cacheKey);
+    if (cached) {
+      return cached;
+    }
   }
 
-  // Parse with OpenAI (PDF text already extracted in popup)
-  const parsedData = await parseReceiptWithOpenAI(pdfText, userProfile, apiKey);
+  // Cached results are free, so the spend cap only blocks new model calls
+  await assertUnderMonthlyCap(providerSettings.model);
+
+  // Parse with the configured provider (PDF text / image OCR already extracted in popup)
+  const provider = createProvider(providerSettings);
+  const parsedData = await parseReceiptWithAI(provider, template, redactedText, userProfile, {
+    receiptImage: sentImage,
+    signal,
+    learnedCorrections,
+    formOptions,
+    descriptionContext
+  }).catch(async (error) => {
+    await recordFailedUsage(providerSettings, localParse.vendorCandidates[0] || '', error);
+    throw error;
+  });
+  await recordParseUsage(providerSettings, parsedData.vendor_name.value, parsedData.usage);
+
+  // Flag fields where the model and the receipt's own labels disagree, and
+  // totals that don't add up (e.g. the model picked the subtotal)
+  const result = applyAmountCrossCheck(reconcileWithLocalParse({ ...parsedData, parser: 'ai' }, localParse));
+  await setCachedParse(cacheKey, result);
+  return result;
+}
+
+// Options page preview: run an unsaved template against the sample receipt, skipping the cache
+async function testPromptTemplate(template: PromptTemplate, userProfile: UserProfile): Promise<ParsedExpenseData> {
+  const providerSettings = await loadProviderSettings();
+  if (!isProviderConfigured(providerSettings)) {
+    throw new Error('Configure an AI provider before testing a prompt template.');
+  }
+  await assertUnderMonthlyCap(providerSettings.model);
 
+  const { text: sampleText } = redactReceiptText(SAMPLE_RECEIPT_TEXT, await loadRedactionSettings());
+  const parsedData = await parseReceiptWithAI(createProvider(providerSettings), template, sampleText, userProfile).catch(async (error) => {
+    await recordFailedUsage(providerSettings, '', error);
+    throw error;
+  });
+  await recordParseUsage(providerSettings, parsedData.vendor_name.value, parsedData.usage);
   return parsedData;
 }
 
+// Side panel "Regenerate": new descriptions from the parsed fields, without re-parsing the receipt
+async function regenerateDescriptions(
+  data: ParsedExpenseData,
+  userProfile: UserProfile,
+  descriptionContext?: DescriptionContext,
+  maxLength?: number
+): Promise<string[]> {
+  const providerSettings = await loadProviderSettings();
+  if (!isProviderConfigured(providerSettings)) {
+    // Without a model, offer the rule-based description in each style, the chosen one first
+    const presets = Object.keys(DESCRIPTION_PRESETS) as DescriptionPreset[];
+    const ordered = userProfile.description_preset
+      ? [userProfile.description_preset, ...presets.filter((preset) => preset !== userProfile.description_preset)]
+      : presets;
+    return Array.from(new Set(ordered.map((preset) => buildPresetDescription(data, preset, descriptionContext, maxLength))));
+  }
+  await assertUnderMonthlyCap(providerSettings.model);
+
+  const { descriptions, usage } = await generateDescriptionAlternatives(
+    createProvider(providerSettings),
+    data,
+    userProfile.description_preset,
+    descriptionContext,
+    maxLength
+  ).catch(async (error) => {
+    await recordFailedUsage(providerSettings, data.vendor_name.value, error);
+    throw error;
+  });
+  await recordParseUsage(providerSettings, data.vendor_name.value, usage);
+  return descriptions;
+}
+
+// A failed call still spent the tokens of any response that came back before it failed
+async function recordFailedUsage(providerSettings: ProviderSettings, vendor: string, error: unknown): Promise<void> {
+  if (error instanceof ProviderError) {
+    await recordParseUsage(providerSettings, vendor, error.usage);
+  }
+}
+
+async function recordParseUsage(providerSettings: ProviderSettings, vendor: string, usage?: TokenUsage): Promise<void> {
+  if (!usage) return;
+  await recordUsage({
+    timestamp: Date.now(),
+    provider: providerSettings.provider,
+    model: providerSettings.model,
+    vendor,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens
+  });
+}
@@ -1,37 +1,250 @@
-import { ParsedExpenseData, FillResult, FillSummary } from './types';
+import { ParsedExpenseData, FillResult, FillSummary, FormOptions } from './types';
+import { rankOptions } from './utils/fuzzyMatch';
+import { CorrectableField, ReceiptFeatures, buildReceiptFeatures } from './utils/corrections';
+import { saveEngageEvents, scrapeEngageEvents } from './utils/engageEvents';
+import { fitToLength } from './utils/descriptionPresets';
+import { CONFIDENCE_THRESHOLD } from './utils/constants';
+import { DEFAULT_DATE_INPUT_FORMAT, detectDateInputFormat, formatDateForInput, normalizeDate } from './utils/dates';
+import {
+  DEFAULT_FIELD_MAPPING_CONFIG,
+  DetectedForm,
+  FieldMapping,
+  FormProfile,
+  WidgetKind,
+  detectFormType,
+  getLabelPattern,
+  loadFieldMappingConfig
+} from './utils/fieldMappings';
+import {
+  TEACHABLE_SOURCES,
+  TaughtField,
+  TaughtPage,
+  buildTaughtMapping,
+  findTaughtPage,
+  loadTaughtPages,
+  mergeTaughtMappings,
+  saveTaughtField
+} from './utils/taughtMappings';
 
-const CONFIDENCE_THRESHOLD = 0.8;
 const UNKNOWN_THRESHOLD = 0.5; // Below this, consider the field unknown
+const MIN_OPTION_MATCH_SCORE = 0.6; // Below this, a dropdown option isn't considered a match
+const MIN_ALTERNATIVE_SCORE = 0.3;
+const MAX_ALTERNATIVES = 3;
+// When the runner-up scores within this of the best option, the match is ambiguous
+const AMBIGUOUS_MATCH_MARGIN = 0.05;
+const AMBIGUOUS_MATCH_CONFIDENCE = 0.6;
 
 // Store PDF file data in memory for cross-page access
 let pendingPDFFileData: { name: string; type: string; arrayBuffer: number[] } | null = null;
 let fileUploadObserver: MutationObserver | null = null;
 // Store form data in memory for cross-page access
 let pendingFormData: ParsedExpenseData | null = null;
+// What the model filled in, so edits the user makes afterwards can be recorded as corrections
+let correctionContext: { features: ReceiptFeatures; modelValues: Record<CorrectableField, string> } | null = null;
+
+// Field mapping config, reloaded before each fill so edits in Options apply without a page reload
+let fieldMappingConfig = DEFAULT_FIELD_MAPPING_CONFIG;
+// Fields mapped in teach mode, for every form page they were taught on
+let taughtPages: TaughtPage[] = [];
+// The form detected when the side panel filled it - later pages of the same form refill with it
+let filledForm: FormProfile | null = null;
+
+const UNKNOWN_FORM_MESSAGE = 'This page is not a recognized NYU Engage form, so nothing was filled. ' +
+  'If it is a form you use, map its questions with Teach Fields in the side panel or under Form Field Mappings in Options.';
+
+async function refreshFieldMappings(): Promise<void> {
+  const [{ config }, pages] = await Promise.all([loadFieldMappingConfig(), loadTaughtPages()]);
+  fieldMappingConfig = config;
+  taughtPages = pages;
+}
+
+refreshFieldMappings().catch(error => console.warn('Could not load field mappings:', error));
+
+// Each touched field's controls and container styles from before the autofill, by field name,
+// so the fill can be undone. The first snapshot of a field is kept until it is restored.
+interface ControlSnapshot {
+  element: HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+  value: string;
+  checked: boolean;
+  autofilled: string | null;
+}
+
+interface FieldSnapshot {
+  container: HTMLElement;
+  style: string | null;
+  controls: ControlSnapshot[];
+}
+
+const fillSnapshots = new Map<string, FieldSnapshot>();
+
+// Fields whose manual corrections are learned from - their labels come from the field mappings
+const CORRECTABLE_FIELDS: CorrectableField[] = ['vendor_name', 'purchase_type', 'description'];
+
+// Canonical radio values mapped to label text patterns, by source key
+const RADIO_VALUE_MAPPINGS: Record<string, Record<string, RegExp[]>> = {
+  'payment_method': {
+    'club_card_no_extra': [/club spending card.*without.*additional funding/i, /club spending card.*no.*extra/i],
+    'club_card_with_extra': [/club spending card.*with.*additional funding/i, /club spending card.*with.*extra/i],
+    'out_of_pocket': [/out of pocket/i]
+  },
+  'purchase_type': {
+    'food': [/food/i],
+    'apparel': [/apparel/i, /clothing/i],
+    'subscription': [/subscription/i],
+    'other': [/other/i]
+  }
+};
 
 chrome.runtime.onMessage.addListener((message, sender, sendResponse) => {
   if (message.action === 'fillForm') {
-    // Reconstruct PDF file from data if provided
-    let pdfFile: File | undefined;
-    if (message.pdfData) {
-      const uint8Array = new Uint8Array(message.pdfData.arrayBuffer);
-      const blob = new Blob([uint8Array], { type: message.pdfData.type });      
-      pdfFile = new File([blob], message.pdfData.name, { type: message.pdfData.type });                                                                         
-
-      // Store PDF file data for later upload if container doesn't exist yet    
-      pendingPDFFileData = {
-        name: message.pdfData.name,
-        type: message.pdfData.type,
-        arrayBuffer: message.pdfData.arrayBuffer
-      };
+    refreshFieldMappings()
+      .catch(error => console.warn('Could not load field mappings, using the last loaded:', error))
+      .then(() => {
+        // Only fill a form we recognize - a partial fill of the wrong form is worse than none
+        const form = resolveCurrentForm();
+        if (!form) {
+          sendResponse({ success: false, error: UNKNOWN_FORM_MESSAGE, formType: null });
+          return;
+        }
+        filledForm = form;
+
+        // Reconstruct PDF file from data if provided
+        let pdfFile: File | undefined;
+        if (message.pdfData) {
+          const uint8Array = new Uint8Array(message.pdfData.arrayBuffer);
+          const blob = new Blob([uint8Array], { type: message.pdfData.type });
+          pdfFile = new File([blob], message.pdfData.name, { type: message.pdfData.type });
+
+          // Store PDF file data for later upload if container doesn't exist yet
+          pendingPDFFileData = {
+            name: message.pdfData.name,
+            type: message.pdfData.type,
+            arrayBuffer: message.pdfData.arrayBuffer
+          };
+        }
+        // Store form data for refilling on subsequent pages
+        pendingFormData = message.data;
+        correctionContext = {
+          features: buildReceiptFeatures(message.data),
+          modelValues: {
+            vendor_name: message.data.vendor_name.value,
+            purchase_type: message.data.purchase_type.value,
+            description: message.data.description.value
+          }
+        };
+        sendResponse({ success: true, summary: fillExpenseForm(message.data, form, pdfFile) });
+      });
+    return true; // Responds after the field mappings load
+  }
+
+  if (message.action === 'getFormOptions') {
+    refreshFieldMappings()
+      .catch(error => console.warn('Could not load field mappings, using the last loaded:', error))
+      .then(() => {
+        const form = resolveCurrentForm();
+        sendResponse({
+          success: true,
+          formType: form ? { id: form.id, name: form.name } : null,
+          options: form ? collectFormOptions(form.mappings) : {}
+        });
+      });
+    return true;
+  }
+
+  if (message.action === 'undoFill') {
+    const restored = Array.from(fillSnapshots.keys()).filter(fieldName => restoreField(fieldName)).length;
+    // Nothing more should be filled or uploaded on later pages of the form
+    pendingFormData = null;
+    pendingPDFFileData = null;
+    correctionContext = null;
+    filledForm = null;
+    sendResponse({ success: true, restored });
+  }
+
+  if (message.action === 'revertField') {
+    if (restoreField(message.fieldName)) {
+      sendResponse({ success: true });
+    } else {
+      sendResponse({ success: false, error: `${message.fieldName} can't be reverted - it isn't on this page` });
     }
-    // Store form data for refilling on subsequent pages
-    pendingFormData = message.data;
-    const summary = fillExpenseForm(message.data, pdfFile);
-    sendResponse({ success: true, summary });
+  }
+
+  if (message.action === 'startTeachMode') {
+    refreshFieldMappings()
+      .catch(error => console.warn('Could not load field mappings, using the last loaded:', error))
+      .then(() => sendResponse({ success: true, questions: startTeachMode() }));
+    return true;
+  }
+
+  if (message.action === 'stopTeachMode') {
+    stopTeachMode();
+    sendResponse({ success: true });
+  }
+
+  if (message.action === 'selectAlternative') {
+    // One-click switch to an alternative offered in the side panel
+    const labelPattern = alternativeLabelPatterns[message.fieldName];
+    const formGroup = labelPattern ? findFieldByLabel(labelPattern) : null;
+    const control = formGroup?.querySelector<HTMLSelectElement | HTMLInputElement | HTMLTextAreaElement>('select, textarea, input[type="text"], input:not([type])');
+    if (!formGroup || !control) {
+      sendResponse({ success: false, error: `${message.fieldName} is not on this page` });
+      return;
+    }
+    snapshotField(message.fieldName, formGroup);
+    control.value = control instanceof HTMLTextAreaElement ? fitToLength(message.value, control.maxLength > 0 ? control.maxLength : undefined) : message.value;
+    control.dispatchEvent(new Event('input', { bubbles: true }));
+    control.dispatchEvent(new Event('change', { bubbles: true }));
+    clearFieldMarks(formGroup);
+    sendResponse({ success: true });
   }
 });
 
+// Read the option labels of every radio and dropdown field, so the model (for purchase type and
+// payment method) and the review step pick from exactly these
+function collectFormOptions(mappings: FieldMapping[]): FormOptions {
+  const choices: { [source: string]: string[] } = {};
+  for (const mapping of mappings) {
+    if ((mapping.widget !== 'radio' && mapping.widget !== 'dropdown') || mapping.fillPolicy === 'skip' || choices[mapping.source]) continue;
+    const labels = getChoiceOptionLabels(new RegExp(mapping.labelPattern, 'i'), mapping.widget);
+    if (labels.length > 0) choices[mapping.source] = labels;
+  }
+
+  const options: FormOptions = {};
+  if (Object.keys(choices).length > 0) options.choices = choices;
+  const descriptionPattern = getLabelPattern(mappings, 'description');
+  const description = descriptionPattern && findFieldByLabel(descriptionPattern)?.querySelector('textarea');
+  if (description && description.maxLength > 0) options.description_max_length = description.maxLength;
+  return options;
+}
+
+// Engage dropdowns start with a "Select..." placeholder whose value is '' or '-1'
+function isPlaceholderOption(value: string): boolean {
+  return value === '' || value === '-1';
+}
+
+function getChoiceOptionLabels(labelPattern: RegExp, widget: WidgetKind): string[] {
+  const formGroup = findFieldByLabel(labelPattern);
+  if (!formGroup) return [];
+  if (widget === 'dropdown') {
+    return Array.from(formGroup.querySelector('select')?.options || [])
+      .filter(option => !isPlaceholderOption(option.value))
+      .map(option => option.text.replace(/\s+/g, ' ').trim())
+      .filter(label => label !== '');
+  }
+  const radioGroup = formGroup.querySelector('[role="group"]') || formGroup;
+  return Array.from(radioGroup.querySelectorAll<HTMLInputElement>('input[type="radio"]'))
+    .map(getRadioLabel)
+    .filter(label => label !== '');
+}
+
+function getRadioLabel(radio: HTMLInputElement): string {
+  const label = radio.closest('label') || radio.parentElement;
+  return (label?.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+// Label patterns of fields that were offered alternatives, by field name, for selectAlternative
+const alternativeLabelPatterns: Record<string, RegExp> = {};
+
 // Intercept XHR and fetch to capture what the form normally sends
 function setupUploadInterceptor(): void {
   // Intercept XMLHttpRequest to see what parameters the form sends
@@ -310,6 +523,7 @@ function checkUrlChange(): void {
     refillCount = 0;
     // Small delay to allow new page content to load
     setTimeout(() => {
+      watchEngageEvents();
       // Refill form on new page if form data is available (force refill on navigation)
       if (pendingFormData) {
         console.log('Refilling form fields on new page (URL changed)...');
@@ -394,7 +608,7 @@ function checkAndRefillOnNewPage(force: boolean = false): void {
     }
     
     refillDebounceTimer = window.setTimeout(() => {
-      if (!pendingFormData || isRefilling) return;
+      if (!pendingFormData || !filledForm || isRefilling) return;
       
       // Quick check - only refill if there are many empty fields
       const formGroups = document.querySelectorAll('.form-group');
@@ -414,7 +628,7 @@ function checkAndRefillOnNewPage(force: boolean = false): void {
         const radioGroup = group.querySelectorAll<HTMLInputElement>('input[type="radio"]:checked');                                                           
 
         const isEmpty = (input && !input.value) ||
-                       (select && (!select.value || select.value === '-1')) ||        
+                       (select && isPlaceholderOption(select.value)) ||        
                        (radioGroup.length === 0 && group.querySelectorAll('input[type="radio"]').length > 0);
         
         if (isEmpty) emptyFieldCount++;
@@ -427,7 +641,7 @@ function checkAndRefillOnNewPage(force: boolean = false): void {
         isRefilling = true;
         refillCount++;
         try {
-          fillExpenseForm(pendingFormData, undefined);
+          fillExpenseForm(pendingFormData, withTaughtFields(filledForm) || filledForm);
         } catch (error) {
           console.error('Error during form refill:', error);
         } finally {
@@ -505,7 +719,52 @@ window.addEventListener('popstate', () => {
   }, 800);
 });
 
-function fillExpenseForm(data: ParsedExpenseData, pdfFile?: File): FillSummary {
+// The open form's own heading - inside the form, or the last one before it. The page's other
+// headings and document.title can name the organization (e.g. "Travel Club").
+function getFormHeading(): string {
+  const form = document.querySelector('.form-group')?.closest('form') || document.querySelector('form');
+  if (!form) return '';
+  const heading = form.querySelector('h1, h2, h3, legend')
+    || Array.from(document.querySelectorAll('h1, h2, h3'))
+      .filter(candidate => candidate.compareDocumentPosition(form) & Node.DOCUMENT_POSITION_FOLLOWING)
+      .pop();
+  return (heading?.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+function getPageLabels(): string[] {
+  return Array.from(document.querySelectorAll('.form-group .label-set'))
+    .map(label => (label.textContent || '').replace(/\s+/g, ' ').trim())
+    .filter(label => label !== '');
+}
+
+// Which known form is open, from its question labels and heading
+function detectCurrentForm(): DetectedForm | null {
+  const detected = detectFormType(fieldMappingConfig, getFormHeading(), getPageLabels());
+  console.log(detected ? `Detected form: ${detected.form.name} (score ${detected.score})` : 'No known form detected on this page');
+  return detected;
+}
+
+// Fields taught on this page of the form, matched by URL path and the page's questions
+function getTaughtFields(): TaughtField[] {
+  return findTaughtPage(taughtPages, location.pathname, getPageLabels())?.fields || [];
+}
+
+// The form to fill on this page: a detected form and/or the fields taught here
+function resolveCurrentForm(): FormProfile | null {
+  const detected = detectCurrentForm();
+  return detected ? withTaughtFields(detected.form) : withTaughtFields(null);
+}
+
+function withTaughtFields(form: FormProfile | null): FormProfile | null {
+  const taught = getTaughtFields();
+  if (taught.length === 0) return form;
+  if (!form) {
+    return { id: 'taught', name: 'Form with taught fields', mappings: taught.map(field => field.mapping) };
+  }
+  return { ...form, mappings: mergeTaughtMappings(form.mappings, taught) };
+}
+
+function fillExpenseForm(data: ParsedExpenseData, form: FormProfile, pdfFile?: File): FillSummary {
   const results: FillResult[] = [];
 
   // Handle PDF file upload - try immediately, but also set up watcher for later pages
@@ -524,63 +783,14 @@ function fillExpenseForm(data: ParsedExpenseData, pdfFile?: File): FillSummary {
     }
   }
 
-  // Map of field labels to their handlers - using label patterns directly
-  const fieldMappings = [
-    {
-      labelPattern: /Purchaser Name/i,
-      fieldName: 'Purchaser Name',
-      handler: () => fillTextFieldByPattern(/Purchaser Name/i, 'Purchaser Name', data.purchaser_name.value, data.purchaser_name.confidence)
-    },
-    {
-      labelPattern: /Purchaser's NetID/i,
-      fieldName: 'NetID',
-      handler: () => fillTextFieldByPattern(/Purchaser's NetID/i, 'NetID', data.netid.value, data.netid.confidence)
-    },
-    {
-      labelPattern: /Club\/Organization/i,
-      fieldName: 'Club/Organization',
-      handler: () => fillDropdownByPattern(/Club\/Organization/i, 'Club/Organization', data.club_name.value, data.club_name.confidence)
-    },
-    {
-      labelPattern: /Payment Method/i,
-      fieldName: 'Payment Method',
-      handler: () => fillRadioGroupByPattern(/Payment Method/i, 'Payment Method', data.payment_method.value, data.payment_method.confidence)
-    },
-    {
-      labelPattern: /Vendor Name/i,
-      fieldName: 'Vendor Name',
-      handler: () => fillTextFieldByPattern(/Vendor Name/i, 'Vendor Name', data.vendor_name.value, data.vendor_name.confidence)
-    },
-    {
-      labelPattern: /Date of Expense/i,
-      fieldName: 'Date of Expense',
-      handler: () => fillTextFieldByPattern(/Date of Expense/i, 'Date of Expense', formatDate(data.date_of_expense.value), data.date_of_expense.confidence)
-    },
-    {
-      labelPattern: /Expense Amount/i,
-      fieldName: 'Expense Amount',
-      handler: () => fillTextFieldByPattern(/Expense Amount/i, 'Expense Amount', String(data.total_amount.value), data.total_amount.confidence)
-    },
-    {
-      labelPattern: /Purchase Type/i,
-      fieldName: 'Purchase Type',
-      handler: () => fillRadioGroupByPattern(/Purchase Type/i, 'Purchase Type', data.purchase_type.value, data.purchase_type.confidence)
-    },
-    {
-      labelPattern: /Include the link to the applicable NYU Engage event/i,
-      fieldName: 'Event Link',
-      handler: () => fillTextFieldByPattern(/Include the link.*NYU Engage event/i, 'Event Link', data.event_link.value, data.event_link.confidence)
-    },
-    {
-      labelPattern: /In a few sentences.*describe the reason for the purchase/i,
-      fieldName: 'Description',
-      handler: () => fillTextFieldByPattern(/In a few sentences.*describe the reason for the purchase/i, 'Description', data.description.value, data.description.confidence, true) // Always fill description if value exists
-    }
-  ];
+  // Fields to fill come from the field mapping config (editable in Options)
+  const mappings = form.mappings.filter(mapping => mapping.fillPolicy !== 'skip');
 
-  fieldMappings.forEach(({ labelPattern, fieldName, handler }) => {
+  mappings.forEach((mapping) => {
+    const { fieldName } = mapping;
+    const labelPattern = new RegExp(mapping.labelPattern, 'i');
     try {
-    const result = handler();
+    const result = flagReviewNote(fillMappedField(mapping, labelPattern, data), labelPattern, getReviewNote(data, mapping.source as keyof ParsedExpenseData));
     if (result) {
       results.push(result);
         if (!result.filled && result.needsReview) {
@@ -612,9 +822,10 @@ function fillExpenseForm(data: ParsedExpenseData, pdfFile?: File): FillSummary {
 
   return {
     results,
-    totalFields: fieldMappings.length,
+    totalFields: mappings.length,
     filledFields,
-    lowConfidenceFields
+    lowConfidenceFields,
+    formType: { id: form.id, name: form.name }
   };
 }
 
@@ -706,6 +917,7 @@ function fillTextFieldByPattern(labelPattern: RegExp, fieldName: string, value:
     console.warn(`Form group not found for field: ${fieldName} (pattern: ${labelPattern})`);
     return { fieldName, filled: false, confidence: 0, needsReview: false };
   }
+  snapshotField(fieldName, formGroup);
 
   // Try multiple selectors to find the input
   let input = formGroup.querySelector<HTMLInputElement>('input.free-text');
@@ -715,6 +927,9 @@ function fillTextFieldByPattern(labelPattern: RegExp, fieldName: string, value:
   if (!input) {
     input = formGroup.querySelector<HTMLInputElement>('textarea');
   }
+  if (!input) {
+    input = formGroup.querySelector<HTMLInputElement>('input[type="date"]');
+  }
   if (!input) {
     // Look for input with id containing "answerTextBox"
     input = formGroup.querySelector<HTMLInputElement>('input[id*="answerTextBox"]');
@@ -725,6 +940,15 @@ function fillTextFieldByPattern(labelPattern: RegExp, fieldName: string, value:
     return { fieldName, filled: false, confidence: 0, needsReview: false };
   }
 
+  // Respect the field's maxlength, ending at a sentence rather than mid-word. Shortened
+  // text is flagged for review.
+  const fittedValue = value ? fitToLength(value, input.maxLength > 0 ? input.maxLength : undefined) : value;
+  if (fittedValue !== value) {
+    console.log(`Shortened ${fieldName} to the field's ${input.maxLength} character limit`);
+    value = fittedValue;
+    confidence = Math.min(confidence, 0.7);
+  }
+
   // For fields like description that should always be filled if a value exists (even if confidence is low)
   if (alwaysFillIfNotEmpty && value && value.trim() !== '') {
     // Still check for N/A values
@@ -825,11 +1049,13 @@ function fillDropdownByPattern(labelPattern: RegExp, fieldName: string, value: s
     console.warn(`Form group not found for dropdown field: ${fieldName} (pattern: ${labelPattern})`);
     return { fieldName, filled: false, confidence: 0, needsReview: false };
   }
+  snapshotField(fieldName, formGroup);
 
   const select = formGroup.querySelector<HTMLSelectElement>('select');
   if (!select) {
     return { fieldName, filled: false, confidence: 0, needsReview: false };
   }
+  alternativeLabelPatterns[fieldName] = labelPattern;
 
   // Check if value is unknown - if so, highlight field instead of filling
   if (isUnknownValue(value, confidence)) {
@@ -843,39 +1069,50 @@ function fillDropdownByPattern(labelPattern: RegExp, fieldName: string, value: s
     };
   }
 
-  // Try to find option by text (case-insensitive)
-  const options = Array.from(select.options);
-  const matchingOption = options.find(opt => 
-    opt.textContent?.toLowerCase().includes(value.toLowerCase()) ||
-    value.toLowerCase().includes(opt.textContent?.toLowerCase() || '')
-  );
-
-  if (matchingOption && matchingOption.value !== '-1') {
-    select.value = matchingOption.value;
+  // Rank the real options (skipping the "Select..." placeholder) against the value
+  const options = Array.from(select.options)
+    .filter(opt => !isPlaceholderOption(opt.value))
+    .map(opt => ({ value: opt.value, text: (opt.textContent || '').trim() }));
+  const ranked = rankOptions(value, options);
+  const best = ranked[0];
+  const toAlternatives = (candidates: typeof ranked) => candidates
+    .filter(candidate => candidate.score >= MIN_ALTERNATIVE_SCORE)
+    .slice(0, MAX_ALTERNATIVES)
+    .map(candidate => ({ value: candidate.value, label: candidate.text, score: candidate.score }));
+
+  if (best && best.score >= MIN_OPTION_MATCH_SCORE) {
+    select.value = best.value;
     select.dispatchEvent(new Event('change', { bubbles: true }));
-    
-    const needsReview = confidence < CONFIDENCE_THRESHOLD;
+
+    // Confidence can't exceed how well the option matched, and a near-tie needs review
+    const ambiguous = ranked.length > 1 && best.score - ranked[1].score <= AMBIGUOUS_MATCH_MARGIN;
+    const matchConfidence = Math.min(confidence, best.score, ambiguous ? AMBIGUOUS_MATCH_CONFIDENCE : 1);
+    const needsReview = matchConfidence < CONFIDENCE_THRESHOLD;
     if (needsReview) {
-      markLowConfidenceField(formGroup, `Low confidence (${Math.round(confidence * 100)}%). Please review.`);
+      markLowConfidenceField(formGroup, ambiguous
+        ? `"${value}" matches several options. Please check the selection.`
+        : `Low confidence (${Math.round(matchConfidence * 100)}%). Please review.`);
     }
 
     return {
       fieldName,
       filled: true,
-      confidence,
-      value: matchingOption.textContent || value,
-      needsReview
+      confidence: matchConfidence,
+      value: best.text,
+      needsReview,
+      alternatives: toAlternatives(ranked.slice(1))
     };
   }
 
-  // No matching option found - mark as unknown
+  // No matching option found - mark as unknown, but still offer the closest options
   markUnknownField(formGroup, fieldName, `Could not find matching option for "${value}". Please select manually.`);
   return {
     fieldName,
     filled: false,
     confidence: 0,
     needsReview: true,
-    value: undefined
+    value: undefined,
+    alternatives: toAlternatives(ranked)
   };
 }
 
@@ -885,12 +1122,13 @@ function fillDropdown(fieldName: string, value: string, confidence: number): Fil
   return fillDropdownByPattern(new RegExp(escapedFieldName, 'i'), fieldName, value, confidence);
 }
 
-function fillRadioGroupByPattern(labelPattern: RegExp, fieldName: string, value: string, confidence: number): FillResult | null {
+function fillRadioGroupByPattern(labelPattern: RegExp, fieldName: string, value: string, confidence: number, valueKey: string = fieldName): FillResult | null {
   const formGroup = findFieldByLabel(labelPattern);
   if (!formGroup) {
     console.warn(`Form group not found for radio group field: ${fieldName} (pattern: ${labelPattern})`);
     return { fieldName, filled: false, confidence: 0, needsReview: false };
   }
+  snapshotField(fieldName, formGroup);
 
   const radioGroup = formGroup.querySelector('[role="group"]') || formGroup;
   const radios = radioGroup.querySelectorAll<HTMLInputElement>('input[type="radio"]');
@@ -911,22 +1149,23 @@ function fillRadioGroupByPattern(labelPattern: RegExp, fieldName: string, value:
     };
   }
 
-  // Map canonical values to label text patterns
-  const valueMappings: Record<string, Record<string, RegExp[]>> = {
-    'Payment Method': {
-      'club_card_no_extra': [/club spending card.*without.*additional funding/i, /club spending card.*no.*extra/i],
-      'club_card_with_extra': [/club spending card.*with.*additional funding/i, /club spending card.*with.*extra/i],
-      'out_of_pocket': [/out of pocket/i]
-    },
-    'Purchase Type': {
-      'food': [/food/i],
-      'apparel': [/apparel/i, /clothing/i],
-      'subscription': [/subscription/i],
-      'other': [/other/i]
+  // The model answers with an option label read from this form - select that option directly
+  const normalizedValue = value.replace(/\s+/g, ' ').trim().toLowerCase();
+  const exactRadio = Array.from(radios).find(radio => getRadioLabel(radio).toLowerCase() === normalizedValue);
+  if (exactRadio) {
+    exactRadio.checked = true;
+    exactRadio.dispatchEvent(new Event('change', { bubbles: true }));
+    exactRadio.dispatchEvent(new Event('click', { bubbles: true }));
+
+    const needsReview = confidence < CONFIDENCE_THRESHOLD;
+    if (needsReview) {
+      markLowConfidenceField(formGroup, `Low confidence (${Math.round(confidence * 100)}%). Please review.`);
     }
-  };
+    return { fieldName, filled: true, confidence, value: getRadioLabel(exactRadio), needsReview };
+  }
 
-  let patterns: RegExp[] = valueMappings[fieldName]?.[value] || [];
+  // Canonical values (offline parser, profile defaults) still go through the label patterns
+  let patterns: RegExp[] = RADIO_VALUE_MAPPINGS[valueKey]?.[value] || [];
   if (patterns.length === 0) {
     // Fallback: try direct text matching
     patterns = [new RegExp(value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i')];
@@ -973,24 +1212,171 @@ function fillRadioGroup(fieldName: string, value: string, confidence: number): F
   return fillRadioGroupByPattern(new RegExp(escapedFieldName, 'i'), fieldName, value, confidence);
 }
 
-function formatDate(dateStr: string): string {
-  if (!dateStr) return '';
-  
-  // If already in MM/DD/YYYY format, return as is
-  if (/^\d{2}\/\d{2}\/\d{4}$/.test(dateStr)) {
-    return dateStr;
+// Record a manual edit to a field the model filled. Our own fill dispatches untrusted events,
+// so only real user changes (isTrusted) count.
+function handlePossibleCorrection(event: Event): void {
+  if (!event.isTrusted || !correctionContext) return;
+  const target = event.target as HTMLInputElement | HTMLTextAreaElement | null;
+  const formGroup = target?.closest('.form-group');
+  if (!target || !formGroup) return;
+
+  const labelText = formGroup.querySelector('.label-set')?.textContent || '';
+  const field = CORRECTABLE_FIELDS.find(candidate => getLabelPattern(filledForm?.mappings || [], candidate)?.test(labelText));
+  if (!field) return;
+
+  const modelValue = correctionContext.modelValues[field];
+  let correctedValue: string;
+  if (target instanceof HTMLInputElement && target.type === 'radio') {
+    if (!target.checked) return;
+    const optionText = getRadioLabel(target);
+    const mappings = RADIO_VALUE_MAPPINGS['purchase_type'];
+    // Record it in the same form as the model's value: the option label, or a canonical value
+    correctedValue = mappings[modelValue]
+      ? Object.keys(mappings).find((value) => mappings[value].some((pattern) => pattern.test(optionText))) || optionText
+      : optionText;
+  } else {
+    // Text fields must have been filled by us - typing into an empty field isn't a correction
+    if (!target.hasAttribute('data-autofilled')) return;
+    correctedValue = target.value.trim();
   }
-  
-  // Try to parse YYYY-MM-DD format
-  const date = new Date(dateStr);
-  if (!isNaN(date.getTime())) {
-    const month = String(date.getMonth() + 1).padStart(2, '0');
-    const day = String(date.getDate()).padStart(2, '0');
-    const year = date.getFullYear();
-    return `${month}/${day}/${year}`;
+
+  if (!modelValue || !correctedValue) return;
+
+  chrome.runtime.sendMessage({
+    action: 'recordCorrection',
+    correction: { field, features: correctionContext.features, modelValue, correctedValue }
+  }).catch((error) => console.warn('Could not record correction:', error));
+}
+
+// 'change' fires once an edit is committed (blur for text, selection for radios)
+document.addEventListener('change', handlePossibleCorrection, true);
+
+// Fill one field as its mapping describes
+function fillMappedField(mapping: FieldMapping, labelPattern: RegExp, data: ParsedExpenseData): FillResult | null {
+  const field = data[mapping.source as keyof ParsedExpenseData] as { value: string | number; confidence: number } | undefined;
+  if (!field) {
+    return { fieldName: mapping.fieldName, filled: false, confidence: 0, needsReview: false, source: mapping.source };
   }
-  
-  return dateStr;
+  const value = applyTransform(field.value, mapping.transform, mapping.transform === 'date' ? getDateInputFormat(labelPattern) : undefined);
+
+  let result: FillResult | null;
+  if (mapping.widget === 'dropdown') {
+    result = fillDropdownByPattern(labelPattern, mapping.fieldName, value, field.confidence);
+  } else if (mapping.widget === 'radio') {
+    result = fillRadioGroupByPattern(labelPattern, mapping.fieldName, value, field.confidence, mapping.source);
+  } else {
+    // Text fields can be replaced from the side panel (regenerated descriptions, other events)
+    alternativeLabelPatterns[mapping.fieldName] = labelPattern;
+    result = fillTextFieldByPattern(labelPattern, mapping.fieldName, value, field.confidence, mapping.fillPolicy === 'always');
+    if (mapping.source === 'event_link') {
+      result = withEventAlternatives(result, data);
+    }
+  }
+  return result && { ...result, source: mapping.source };
+}
+
+function applyTransform(value: string | number, transform: FieldMapping['transform'], dateFormat?: string): string {
+  const text = value === null || value === undefined ? '' : String(value);
+  switch (transform) {
+    case 'date':
+      return formatDateForInput(normalizeDate(text) || text, dateFormat);
+    case 'amount':
+      return text.replace(/[^0-9.-]/g, '');
+    default:
+      return text;
+  }
+}
+
+// The format the field's date input expects, from its type, datepicker, placeholder or label
+function getDateInputFormat(labelPattern: RegExp): string {
+  const formGroup = findFieldByLabel(labelPattern);
+  const input = formGroup?.querySelector<HTMLInputElement>('input[type="date"], input.free-text, input[type="text"], input[id*="answerTextBox"]');
+  if (!formGroup || !input) return DEFAULT_DATE_INPUT_FORMAT;
+  return detectDateInputFormat(input, formGroup.querySelector('.label-set')?.textContent || '');
+}
+
+// Offer the runner-up Engage events next to the filled link
+function withEventAlternatives(result: FillResult | null, data: ParsedExpenseData): FillResult | null {
+  const candidates = data.event_candidates || [];
+  if (!result || candidates.length === 0) return result;
+  return {
+    ...result,
+    alternatives: candidates.map(candidate => ({
+      value: candidate.url,
+      label: `${candidate.name} (${candidate.date})`,
+      score: candidate.score
+    }))
+  };
+}
+
+// Engage renders event listings client-side and loads more on scroll, so watch the list
+// (debounced) while it's an events page and cache any events not seen yet
+const EVENT_LIST_SELECTOR = '#event-discovery-list, [role="main"], main';
+const EVENT_COLLECT_DELAY_MS = 1000;
+let eventListObserver: MutationObserver | null = null;
+let eventCollectTimer: number | undefined;
+let lastEventUrls = '';
+
+function isEngageEventsPage(): boolean {
+  return /\/events?\b/i.test(window.location.pathname);
+}
+
+function collectEngageEvents(): void {
+  if (!isEngageEventsPage()) return;
+  const events = scrapeEngageEvents(document, window.location.href);
+  const eventUrls = events.map(event => event.url).sort().join(' ');
+  if (events.length === 0 || eventUrls === lastEventUrls) return;
+  lastEventUrls = eventUrls;
+  saveEngageEvents(events).catch(error => console.warn('Could not cache Engage events:', error));
+}
+
+function watchEngageEvents(): void {
+  eventListObserver?.disconnect();
+  eventListObserver = null;
+  window.clearTimeout(eventCollectTimer);
+  if (!isEngageEventsPage()) return;
+  collectEngageEvents();
+
+  // Until the list has rendered, watch the body for it and then narrow to the list
+  const container = document.querySelector(EVENT_LIST_SELECTOR);
+  eventListObserver = new MutationObserver(() => {
+    window.clearTimeout(eventCollectTimer);
+    eventCollectTimer = window.setTimeout(container ? collectEngageEvents : watchEngageEvents, EVENT_COLLECT_DELAY_MS);
+  });
+  eventListObserver.observe(container || document.body, { childList: true, subtree: true });
+}
+
+watchEngageEvents();
+
+// Collect the reasons a field was flagged during parsing (amount cross-check, local parser disagreement)
+function getReviewNote(data: ParsedExpenseData, dataKey: keyof ParsedExpenseData): string | undefined {
+  const notes: string[] = [];
+  if (dataKey === 'total_amount' && data.amount_check && !data.amount_check.consistent) {
+    notes.push(data.amount_check.message);
+  }
+  const note = data.review_notes?.[dataKey];
+  if (note) {
+    notes.push(note);
+  }
+  return notes.length > 0 ? notes.join(' ') : undefined;
+}
+
+// Surface a review note on the filled field and in the summary
+function flagReviewNote(result: FillResult | null, labelPattern: RegExp, note: string | undefined): FillResult | null {
+  if (!result || !result.filled || !note) {
+    return result;
+  }
+
+  const formGroup = findFieldByLabel(labelPattern);
+  if (formGroup) {
+    markLowConfidenceField(formGroup, note);
+  }
+
+  return {
+    ...result,
+    needsReview: true,
+    discrepancy: note
+  };
 }
 
 function markLowConfidenceField(container: HTMLElement, tooltipText: string = 'Low confidence - please review'): void {
@@ -1083,6 +1469,227 @@ function markUnknownField(container: HTMLElement, fieldName: string, tooltipText
     container.appendChild(warning);
 }
 
+// Remember the field as it was before we change it
+function snapshotField(fieldName: string, container: HTMLElement): void {
+  const existing = fillSnapshots.get(fieldName);
+  if (existing && existing.container.isConnected) return;
+  const controls = Array.from(container.querySelectorAll<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>('input, select, textarea'))
+    .filter(element => !(element instanceof HTMLInputElement && ['file', 'button', 'submit', 'hidden'].includes(element.type)))
+    .map(element => ({
+      element,
+      value: element.value,
+      checked: element instanceof HTMLInputElement && element.checked,
+      autofilled: element.getAttribute('data-autofilled')
+    }));
+  fillSnapshots.set(fieldName, { container, style: container.getAttribute('style'), controls });
+}
+
+// Put a field back as it was before the autofill, firing the events Engage listens for.
+// Returns false when the field is no longer on the page (e.g. an earlier page of the form).
+function restoreField(fieldName: string): boolean {
+  const snapshot = fillSnapshots.get(fieldName);
+  fillSnapshots.delete(fieldName);
+  if (!snapshot || !snapshot.container.isConnected) return false;
+
+  snapshot.controls.forEach(({ element, value, checked, autofilled }) => {
+    if (autofilled === null) {
+      element.removeAttribute('data-autofilled');
+    } else {
+      element.setAttribute('data-autofilled', autofilled);
+    }
+    const isToggle = element instanceof HTMLInputElement && (element.type === 'radio' || element.type === 'checkbox');
+    if (isToggle ? (element as HTMLInputElement).checked === checked : element.value === value) return;
+    if (isToggle) {
+      (element as HTMLInputElement).checked = checked;
+    } else {
+      element.value = value;
+    }
+    element.dispatchEvent(new Event('input', { bubbles: true, cancelable: true }));
+    element.dispatchEvent(new Event('change', { bubbles: true, cancelable: true }));
+  });
+
+  snapshot.container.querySelectorAll('.expense-autofill-warning, .expense-autofill-unknown').forEach(el => el.remove());
+  if (snapshot.style === null) {
+    snapshot.container.removeAttribute('style');
+  } else {
+    snapshot.container.setAttribute('style', snapshot.style);
+  }
+  return true;
+}
+
+// Remove the review highlighting once the user has chosen a value from the side panel
+function clearFieldMarks(container: HTMLElement): void {
+  container.style.backgroundColor = '';
+  container.style.outline = '';
+  container.style.padding = '';
+  container.style.margin = '';
+  container.querySelectorAll('.expense-autofill-warning, .expense-autofill-unknown').forEach(el => el.remove());
+}
+
+// Teach mode: the user clicks a question the field mappings miss and picks the value that
+// belongs there. The overlays cover each question so the click doesn't reach the form itself.
+let teachOverlays: HTMLElement[] = [];
+let teachPicker: HTMLElement | null = null;
+
+// Returns how many questions can be taught on this page
+function startTeachMode(): number {
+  stopTeachMode();
+  const labels = getPageLabels();
+  const builtIn = detectCurrentForm()?.form.mappings || filledForm?.mappings || [];
+  const groups = Array.from(document.querySelectorAll<HTMLElement>('.form-group'))
+    .filter(group => getQuestionLabel(group) !== '');
+
+  groups.forEach(group => {
+    const overlay = document.createElement('div');
+    overlay.className = 'expense-autofill-teach';
+    overlay.style.position = 'absolute';
+    overlay.style.inset = '0';
+    overlay.style.zIndex = '10000';
+    overlay.style.cursor = 'pointer';
+    overlay.style.borderRadius = '4px';
+    overlay.style.display = 'flex';
+    overlay.style.alignItems = 'flex-start';
+    overlay.style.justifyContent = 'flex-end';
+    overlay.addEventListener('click', (event) => {
+      event.preventDefault();
+      event.stopPropagation();
+      openTeachPicker(group, overlay, labels, builtIn);
+    });
+    if (getComputedStyle(group).position === 'static') {
+      group.dataset.expenseAutofillTeach = 'static';
+      group.style.position = 'relative';
+    }
+    group.appendChild(overlay);
+    teachOverlays.push(overlay);
+    updateTeachOverlay(overlay, group, builtIn);
+  });
+
+  document.addEventListener('keydown', handleTeachKeydown, true);
+  return groups.length;
+}
+
+function stopTeachMode(): void {
+  closeTeachPicker();
+  teachOverlays.forEach(overlay => {
+    const group = overlay.parentElement;
+    if (group?.dataset.expenseAutofillTeach === 'static') {
+      group.style.position = '';
+      delete group.dataset.expenseAutofillTeach;
+    }
+    overlay.remove();
+  });
+  teachOverlays = [];
+  document.removeEventListener('keydown', handleTeachKeydown, true);
+}
+
+function handleTeachKeydown(event: KeyboardEvent): void {
+  if (event.key !== 'Escape') return;
+  event.preventDefault();
+  if (teachPicker) {
+    closeTeachPicker();
+    return;
+  }
+  stopTeachMode();
+  // Let the side panel reset its Teach Fields button
+  chrome.runtime.sendMessage({ action: 'teachModeStopped' }).catch(() => {});
+}
+
+function getQuestionLabel(group: HTMLElement): string {
+  return (group.querySelector('.label-set')?.textContent || '').replace(/\s+/g, ' ').trim();
+}
+
+function getWidgetKind(group: HTMLElement): WidgetKind {
+  if (group.querySelector('select')) return 'dropdown';
+  if (group.querySelector('input[type="radio"]')) return 'radio';
+  return 'text';
+}
+
+// Show what fills the question now: a taught value, a built-in mapping, or nothing
+function updateTeachOverlay(overlay: HTMLElement, group: HTMLElement, builtIn: FieldMapping[]): void {
+  const label = getQuestionLabel(group);
+  const taught = getTaughtFields().find(field => field.label === label);
+  const mapping = taught?.mapping || builtIn.find(candidate => new RegExp(candidate.labelPattern, 'i').test(label));
+  const sourceLabel = mapping && (TEACHABLE_SOURCES.find(source => source.key === mapping.source)?.label || mapping.source);
+
+  overlay.style.backgroundColor = mapping ? 'rgba(102, 126, 234, 0.12)' : 'rgba(211, 47, 47, 0.12)';
+  overlay.style.outline = `2px dashed ${mapping ? '#667eea' : '#d32f2f'}`;
+  overlay.textContent = '';
+  const badge = document.createElement('span');
+  badge.textContent = taught ? `Taught: ${sourceLabel}` : mapping ? `Filled with: ${sourceLabel}` : 'Not mapped - click to teach';
+  badge.style.margin = '4px';
+  badge.style.padding = '2px 8px';
+  badge.style.borderRadius = '4px';
+  badge.style.fontSize = '12px';
+  badge.style.fontWeight = 'bold';
+  badge.style.color = '#fff';
+  badge.style.backgroundColor = mapping ? '#667eea' : '#d32f2f';
+  overlay.appendChild(badge);
+}
+
+function openTeachPicker(group: HTMLElement, overlay: HTMLElement, labels: string[], builtIn: FieldMapping[]): void {
+  closeTeachPicker();
+  const label = getQuestionLabel(group);
+  const rect = group.getBoundingClientRect();
+
+  const picker = document.createElement('div');
+  picker.className = 'expense-autofill-teach-picker';
+  picker.style.position = 'absolute';
+  picker.style.top = `${rect.bottom + window.scrollY + 4}px`;
+  picker.style.left = `${rect.left + window.scrollX}px`;
+  picker.style.zIndex = '10001';
+  picker.style.width = '320px';
+  picker.style.padding = '12px';
+  picker.style.backgroundColor = '#fff';
+  picker.style.border = '1px solid #667eea';
+  picker.style.borderRadius = '8px';
+  picker.style.boxShadow = '0 4px 12px rgba(0,0,0,0.2)';
+  picker.style.fontSize = '13px';
+
+  const heading = document.createElement('div');
+  heading.textContent = `Fill "${label.length > 60 ? `${label.slice(0, 60)}...` : label}" with:`;
+  heading.style.marginBottom = '8px';
+  heading.style.fontWeight = 'bold';
+
+  const select = document.createElement('select');
+  select.style.width = '100%';
+  select.style.marginBottom = '8px';
+  select.add(new Option('Choose a value...', ''));
+  TEACHABLE_SOURCES.forEach(source => select.add(new Option(source.label, source.key)));
+  select.value = getTaughtFields().find(field => field.label === label)?.mapping.source || '';
+
+  const save = document.createElement('button');
+  save.type = 'button';
+  save.textContent = 'Save';
+  save.style.marginRight = '8px';
+  save.addEventListener('click', async () => {
+    if (!select.value) return;
+    const mapping = buildTaughtMapping(label, select.value, getWidgetKind(group));
+    try {
+      await saveTaughtField(location.pathname, labels, getFormHeading(), { label, mapping });
+      taughtPages = await loadTaughtPages();
+      updateTeachOverlay(overlay, group, builtIn);
+      closeTeachPicker();
+    } catch (error: any) {
+      heading.textContent = `Could not save: ${error.message}`;
+    }
+  });
+
+  const cancel = document.createElement('button');
+  cancel.type = 'button';
+  cancel.textContent = 'Cancel';
+  cancel.addEventListener('click', closeTeachPicker);
+
+  picker.append(heading, select, save, cancel);
+  document.body.appendChild(picker);
+  teachPicker = picker;
+  select.focus();
+}
+
+function closeTeachPicker(): void {
+  teachPicker?.remove();
+  teachPicker = null;
+}
+
 function uploadPDFFile(file: File): void {
   try {
     // Find the file upload container and button
@@ -1,59 +1,504 @@
 import React, { useState, useEffect } from 'react';
 import { createRoot } from 'react-dom/client';
+import { ParsedExpenseData, ProviderId, ProviderSettings, UserProfile } from '../types';
+import { DEFAULT_MAX_RETRIES, DEFAULT_TIMEOUT_SECONDS, PROVIDER_DEFINITIONS, getDefaultProviderSettings, isProviderConfigured, loadProviderSettings } from '../utils/providers';
+import { clearParseCache } from '../utils/parseCache';
+import { EngageEvent, clearEngageEvents, loadEngageEvents } from '../utils/engageEvents';
+import { TEACHABLE_SOURCES, TaughtPage, loadTaughtPages, removeTaughtPage } from '../utils/taughtMappings';
+import {
+  FIELD_TRANSFORMS,
+  FILL_POLICIES,
+  SOURCE_KEYS,
+  WIDGET_KINDS,
+  loadFieldMappingConfig,
+  parseFieldMappingConfig,
+  resetFieldMappingConfig,
+  saveFieldMappingConfig
+} from '../utils/fieldMappings';
+import { Correction, clearCorrections, deleteCorrection, loadCorrections } from '../utils/corrections';
+import {
+  BUILT_IN_RULES,
+  DEFAULT_REDACTION_SETTINGS,
+  RedactionSettings,
+  loadRedactionSettings,
+  saveRedactionSettings,
+  validateCustomRule
+} from '../utils/redaction';
+import {
+  DEFAULT_PROMPT_TEMPLATE,
+  PROMPT_PLACEHOLDERS,
+  PromptTemplate,
+  SAMPLE_RECEIPT_TEXT,
+  buildPromptVariables,
+  loadPromptTemplate,
+  renderPrompt,
+  resetPromptTemplate,
+  savePromptTemplate,
+  validatePromptTemplate
+} from '../utils/promptTemplates';
+import {
+  DEFAULT_PRICES,
+  UsageRecord,
+  UsageSettings,
+  UsageTotals,
+  clearUsageLog,
+  findModelPrice,
+  loadUsageLog,
+  loadUsageSettings,
+  saveUsageSettings,
+  startOfMonth,
+  startOfToday,
+  summarizeUsage
+} from '../utils/usageTracker';
 import './options.css';
 
 const Options: React.FC = () => {
-  const [apiKey, setApiKey] = useState('');
+  const [settings, setSettings] = useState<ProviderSettings>(getDefaultProviderSettings('openai'));
   const [status, setStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>({ prices: DEFAULT_PRICES });
+  // Price table rows while editing - saved back to a model -> price map
+  const [priceRows, setPriceRows] = useState<{ model: string; input: string; output: string }[]>([]);
+  const [monthlyCap, setMonthlyCap] = useState('');
+  const [usageLog, setUsageLog] = useState<UsageRecord[]>([]);
+  const [usageStatus, setUsageStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [promptTemplate, setPromptTemplate] = useState<PromptTemplate>(DEFAULT_PROMPT_TEMPLATE);
+  const [draftSystem, setDraftSystem] = useState(DEFAULT_PROMPT_TEMPLATE.system);
+  const [draftBody, setDraftBody] = useState(DEFAULT_PROMPT_TEMPLATE.body);
+  const [promptPreview, setPromptPreview] = useState<string | null>(null);
+  const [promptTest, setPromptTest] = useState<{ loading: boolean; result?: ParsedExpenseData; error?: string } | null>(null);
+  const [corrections, setCorrections] = useState<Correction[]>([]);
+  const [engageEvents, setEngageEvents] = useState<EngageEvent[]>([]);
+  const [redaction, setRedaction] = useState<RedactionSettings>(DEFAULT_REDACTION_SETTINGS);
+  const [redactionStatus, setRedactionStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [promptStatus, setPromptStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  // Field mapping config as JSON text while editing
+  const [mappingDraft, setMappingDraft] = useState('');
+  const [mappingStatus, setMappingStatus] = useState<{ type: 'success' | 'error'; message: string; errors?: string[] } | null>(null);
+  const [taughtPages, setTaughtPages] = useState<TaughtPage[]>([]);
 
   useEffect(() => {
     loadSettings();
   }, []);
 
   const loadSettings = async () => {
-    const storage = await chrome.storage.sync.get(['openaiApiKey']);
-    if (storage.openaiApiKey) {
-      setApiKey(storage.openaiApiKey);
+    setSettings(await loadProviderSettings());
+    const usage = await loadUsageSettings();
+    setUsageSettings(usage);
+    setPriceRows(Object.keys(usage.prices).map((model) => ({
+      model,
+      input: String(usage.prices[model].input),
+      output: String(usage.prices[model].output)
+    })));
+    setMonthlyCap(usage.monthlyCap ? String(usage.monthlyCap) : '');
+    setUsageLog(await loadUsageLog());
+    setCorrections(await loadCorrections());
+    setEngageEvents(await loadEngageEvents());
+    setTaughtPages(await loadTaughtPages());
+    const mappingConfig = await loadFieldMappingConfig();
+    setMappingDraft(JSON.stringify(mappingConfig.config, null, 2));
+    if (mappingConfig.errors.length > 0) {
+      setMappingStatus({ type: 'error', message: 'The saved field mappings are invalid, so the defaults are in use:', errors: mappingConfig.errors });
     }
+    setRedaction(await loadRedactionSettings());
+    const template = await loadPromptTemplate();
+    setPromptTemplate(template);
+    setDraftSystem(template.system);
+    setDraftBody(template.body);
+  };
+
+  const handleProviderChange = (provider: ProviderId) => {
+    // Switching providers resets endpoint/model to that provider's defaults but keeps the key and request limits
+    setSettings({
+      ...getDefaultProviderSettings(provider),
+      apiKey: settings.apiKey,
+      timeoutSeconds: settings.timeoutSeconds,
+      maxRetries: settings.maxRetries
+    });
   };
 
   const handleSave = async () => {
-    if (!apiKey.trim()) {
-      setStatus({ type: 'error', message: 'API key cannot be empty' });
+    const trimmed: ProviderSettings = {
+      ...settings,
+      endpoint: settings.endpoint.trim(),
+      model: settings.model.trim(),
+      apiKey: settings.apiKey.trim(),
+      apiVersion: settings.apiVersion?.trim() || undefined,
+      projectId: settings.projectId?.trim() || undefined,
+      authEndpoint: settings.authEndpoint?.trim() || undefined
+    };
+
+    if (trimmed.timeoutSeconds !== undefined && (trimmed.timeoutSeconds < 5 || trimmed.timeoutSeconds > 600)) {
+      setStatus({ type: 'error', message: 'Timeout must be between 5 and 600 seconds' });
+      return;
+    }
+    if (trimmed.maxRetries !== undefined && (trimmed.maxRetries < 0 || trimmed.maxRetries > 5)) {
+      setStatus({ type: 'error', message: 'Retries must be between 0 and 5' });
+      return;
+    }
+
+    if (!isProviderConfigured(trimmed)) {
+      setStatus({ type: 'error', message: 'Please fill in all required fields for this provider' });
       return;
     }
 
     try {
-      await chrome.storage.sync.set({ openaiApiKey: apiKey.trim() });
+      // Custom endpoints (local servers, Azure resources) need host permission granted at runtime
+      const origins = [`${new URL(trimmed.endpoint).origin}/*`];
+      if (trimmed.authEndpoint) {
+        origins.push(`${new URL(trimmed.authEndpoint).origin}/*`);
+      }
+      const granted = await chrome.permissions.request({ origins });
+      if (!granted) {
+        setStatus({ type: 'error', message: `Permission to access ${origins.join(', ')} is required for this endpoint` });
+        return;
+      }
+
+      await chrome.storage.sync.set({ providerSettings: trimmed });
+      setSettings(trimmed);
       setStatus({ type: 'success', message: 'Settings saved successfully!' });
       setTimeout(() => setStatus(null), 3000);
     } catch (error) {
-      setStatus({ type: 'error', message: 'Failed to save settings' });
+      setStatus({ type: 'error', message: `Failed to save settings${error instanceof Error ? `: ${error.message}` : ''}` });
     }
   };
 
+  const loadProfileForPreview = async (): Promise<UserProfile> => {
+    const storage = await chrome.storage.sync.get(['userProfile']);
+    return storage.userProfile || { purchaser_name: '', netid: '', default_club: '', default_payment_method: 'out_of_pocket' };
+  };
+
+  const handleSavePrompt = async () => {
+    const errors = validatePromptTemplate(draftBody);
+    if (errors.length > 0) {
+      setPromptStatus({ type: 'error', message: errors.join('. ') });
+      return;
+    }
+    const saved = await savePromptTemplate(draftSystem, draftBody);
+    setPromptTemplate(saved);
+    setPromptStatus({ type: 'success', message: `Prompt saved as version ${saved.version}` });
+    setTimeout(() => setPromptStatus(null), 3000);
+  };
+
+  const handleResetPrompt = async () => {
+    if (!confirm('Replace your prompt with the built-in default?')) return;
+    const template = await resetPromptTemplate();
+    setPromptTemplate(template);
+    setDraftSystem(template.system);
+    setDraftBody(template.body);
+    setPromptPreview(null);
+    setPromptTest(null);
+    setPromptStatus({ type: 'success', message: 'Prompt reset to the default' });
+    setTimeout(() => setPromptStatus(null), 3000);
+  };
+
+  const handlePreviewPrompt = async () => {
+    const profile = await loadProfileForPreview();
+    setPromptPreview(renderPrompt(draftBody, buildPromptVariables(SAMPLE_RECEIPT_TEXT, profile, false)));
+  };
+
+  const handleTestPrompt = async () => {
+    const errors = validatePromptTemplate(draftBody);
+    if (errors.length > 0) {
+      setPromptStatus({ type: 'error', message: errors.join('. ') });
+      return;
+    }
+    setPromptTest({ loading: true });
+    const template: PromptTemplate = { version: 'draft', system: draftSystem, body: draftBody };
+    const response = await chrome.runtime.sendMessage({
+      action: 'testPromptTemplate',
+      template,
+      userProfile: await loadProfileForPreview()
+    });
+    setPromptTest(response.success ? { loading: false, result: response.data } : { loading: false, error: response.error });
+    setUsageLog(await loadUsageLog());
+  };
+
+  const handleSaveMappings = async (json: string = mappingDraft) => {
+    const { config, errors } = parseFieldMappingConfig(json);
+    if (!config) {
+      setMappingStatus({ type: 'error', message: 'Field mappings not saved:', errors });
+      return;
+    }
+    await saveFieldMappingConfig(config);
+    setMappingDraft(JSON.stringify(config, null, 2));
+    setMappingStatus({ type: 'success', message: `Saved field mappings for ${config.forms.map((form) => form.name).join(', ')}` });
+    setTimeout(() => setMappingStatus(null), 3000);
+  };
+
+  const handleResetMappings = async () => {
+    if (!confirm('Replace your field mappings with the built-in defaults?')) return;
+    const config = await resetFieldMappingConfig();
+    setMappingDraft(JSON.stringify(config, null, 2));
+    setMappingStatus({ type: 'success', message: 'Field mappings reset to the defaults' });
+    setTimeout(() => setMappingStatus(null), 3000);
+  };
+
+  const handleRemoveTaughtPage = async (page: TaughtPage) => {
+    setTaughtPages(await removeTaughtPage(page.path, page.fingerprint));
+  };
+
+  const handleExportMappings = () => {
+    const url = URL.createObjectURL(new Blob([mappingDraft], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'engage-field-mappings.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // An imported file is saved right away when valid, otherwise left in the editor to fix
+  const handleImportMappings = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const json = await file.text();
+    setMappingDraft(json);
+    await handleSaveMappings(json);
+  };
+
+  const toggleRedactionRule = (id: string, enabled: boolean) => {
+    const disabledRules = redaction.disabledRules.filter((ruleId) => ruleId !== id);
+    setRedaction({ ...redaction, disabledRules: enabled ? disabledRules : [...disabledRules, id] });
+  };
+
+  const updateCustomRule = (index: number, field: 'label' | 'pattern' | 'replacement', value: string) => {
+    setRedaction({
+      ...redaction,
+      customRules: redaction.customRules.map((rule, i) => (i === index ? { ...rule, [field]: value } : rule))
+    });
+  };
+
+  const handleSaveRedaction = async () => {
+    const customRules = redaction.customRules.filter((rule) => rule.pattern.trim() || rule.label.trim());
+    const errors = customRules.map(validateCustomRule).filter(Boolean);
+    if (errors.length > 0) {
+      setRedactionStatus({ type: 'error', message: errors.join('. ') });
+      return;
+    }
+    const updated = { ...redaction, customRules };
+    await saveRedactionSettings(updated);
+    setRedaction(updated);
+    setRedactionStatus({ type: 'success', message: 'Privacy settings saved' });
+    setTimeout(() => setRedactionStatus(null), 3000);
+  };
+
+  const handleDeleteCorrection = async (id: string) => {
+    setCorrections(await deleteCorrection(id));
+  };
+
+  const handleClearCorrections = async () => {
+    if (!confirm('Delete all learned corrections?')) return;
+    await clearCorrections();
+    setCorrections([]);
+  };
+
+  const handleClearCache = async () => {
+    await clearParseCache();
+    setStatus({ type: 'success', message: 'Cached receipt results cleared' });
+    setTimeout(() => setStatus(null), 3000);
+  };
+
+  const handleClearEngageEvents = async () => {
+    await clearEngageEvents();
+    setEngageEvents([]);
+  };
+
+  const handleSaveUsageSettings = async () => {
+    const prices: UsageSettings['prices'] = {};
+    for (const row of priceRows) {
+      const model = row.model.trim();
+      if (!model) continue;
+      const input = parseFloat(row.input);
+      const output = parseFloat(row.output);
+      if (isNaN(input) || isNaN(output) || input < 0 || output < 0) {
+        setUsageStatus({ type: 'error', message: `Invalid price for ${model}` });
+        return;
+      }
+      prices[model] = { input, output };
+    }
+
+    const cap = monthlyCap.trim() ? parseFloat(monthlyCap) : undefined;
+    if (cap !== undefined && (isNaN(cap) || cap <= 0)) {
+      setUsageStatus({ type: 'error', message: 'Monthly cap must be a positive amount' });
+      return;
+    }
+
+    const updated: UsageSettings = { prices, monthlyCap: cap };
+    await saveUsageSettings(updated);
+    setUsageSettings(updated);
+    setUsageStatus({ type: 'success', message: 'Cost settings saved' });
+    setTimeout(() => setUsageStatus(null), 3000);
+  };
+
+  const handleClearUsage = async () => {
+    if (!confirm('Delete all recorded usage? Monthly totals will restart from zero.')) return;
+    await clearUsageLog();
+    setUsageLog([]);
+  };
+
+  const updatePriceRow = (index: number, field: 'model' | 'input' | 'output', value: string) => {
+    setPriceRows(priceRows.map((row, i) => (i === index ? { ...row, [field]: value } : row)));
+  };
+
+  const formatCost = (cost: number | null) => (cost === null ? 'no price' : `$${cost.toFixed(cost < 0.01 ? 4 : 2)}`);
+
+  const renderTotals = (label: string, totals: UsageTotals) => (
+    <div className="usage-total">
+      <div className="usage-total-label">{label}</div>
+      <div className="usage-total-cost">${totals.cost.toFixed(2)}</div>
+      <div className="help-text">
+        {totals.parses} parse{totals.parses === 1 ? '' : 's'} · {(totals.promptTokens + totals.completionTokens).toLocaleString()} tokens
+        {totals.unpricedParses > 0 && ` · ${totals.unpricedParses} without a price`}
+      </div>
+    </div>
+  );
+
+  const definition = PROVIDER_DEFINITIONS[settings.provider];
+  const todayTotals = summarizeUsage(usageLog, startOfToday());
+  const monthTotals = summarizeUsage(usageLog, startOfMonth());
+
   return (
     <div className="container">
       <h1>⚙️ NYU Expense Auto-Fill Settings</h1>
-      <p className="subtitle">Configure your OpenAI API key and extension preferences</p>
+      <p className="subtitle">Configure the AI provider and extension preferences</p>
 
       <div className="section">
-        <h2>ChatGPT / OpenAI API Key</h2>
+        <h2>AI Provider</h2>
+        <div className="form-group">
+          <label htmlFor="provider">Provider</label>
+          <select
+            id="provider"
+            value={settings.provider}
+            onChange={(e) => handleProviderChange(e.target.value as ProviderId)}
+          >
+            {(Object.keys(PROVIDER_DEFINITIONS) as ProviderId[]).map((id) => (
+              <option key={id} value={id}>{PROVIDER_DEFINITIONS[id].label}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="endpoint">Endpoint</label>
+          <div className="help-text">
+            {settings.provider === 'azure-openai' && 'Your Azure OpenAI resource URL, e.g. https://my-resource.openai.azure.com'}
+            {settings.provider === 'watsonx' && 'The watsonx.ai regional URL, e.g. https://us-south.ml.cloud.ibm.com'}
+            {settings.provider === 'openai-compatible' && 'Base URL of the OpenAI-compatible API, e.g. http://localhost:11434/v1 for Ollama'}
+            {settings.provider === 'openai' && 'Leave as the default unless you use a proxy'}
+          </div>
+          <input
+            id="endpoint"
+            type="text"
+            value={settings.endpoint}
+            onChange={(e) => setSettings({ ...settings, endpoint: e.target.value })}
+            placeholder={definition.defaultEndpoint}
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="model">{settings.provider === 'azure-openai' ? 'Deployment Name' : 'Model'}</label>
+          <input
+            id="model"
+            type="text"
+            value={settings.model}
+            onChange={(e) => setSettings({ ...settings, model: e.target.value })}
+            placeholder={definition.defaultModel}
+          />
+        </div>
+
+        {settings.provider === 'azure-openai' && (
+          <div className="form-group">
+            <label htmlFor="apiVersion">API Version</label>
+            <input
+              id="apiVersion"
+              type="text"
+              value={settings.apiVersion || ''}
+              onChange={(e) => setSettings({ ...settings, apiVersion: e.target.value })}
+              placeholder="2024-10-21"
+            />
+            <div className="help-text">
+              2024-08-01-preview or later enforces the response schema (structured outputs); older versions only ask for JSON.
+            </div>
+          </div>
+        )}
+
+        {settings.provider === 'watsonx' && (
+          <div className="form-group">
+            <label htmlFor="projectId">Project ID (Required)</label>
+            <input
+              id="projectId"
+              type="text"
+              value={settings.projectId || ''}
+              onChange={(e) => setSettings({ ...settings, projectId: e.target.value })}
+              placeholder="watsonx.ai project ID"
+            />
+          </div>
+        )}
+
+        {settings.provider === 'watsonx' && (
+          <div className="form-group">
+            <label htmlFor="authEndpoint">IAM Token URL (Optional)</label>
+            <div className="help-text">Leave empty to use https://iam.cloud.ibm.com/identity/token</div>
+            <input
+              id="authEndpoint"
+              type="text"
+              value={settings.authEndpoint || ''}
+              onChange={(e) => setSettings({ ...settings, authEndpoint: e.target.value })}
+              placeholder="https://iam.cloud.ibm.com/identity/token"
+            />
+          </div>
+        )}
+
         <div className="form-group">
-          <label htmlFor="apiKey">OpenAI API Key (Required)</label>
+          <label htmlFor="apiKey">API Key{definition.requiresApiKey ? '' : ' (Optional)'}</label>
           <div className="help-text">
-            <strong>This is required for the extension to work.</strong> Your API key is stored securely in Chrome's sync storage and never shared.
-            <br /><br />
-            Get your API key from <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer">OpenAI Platform</a> (sign up/login required).
-            The key should start with "sk-".
+            {settings.provider === 'openai' && (
+              <>
+                <strong>Strongly recommended.</strong> Without a configured provider, receipts are read by a basic offline rule-based parser and most fields will need review.
+                <br /><br />
+                Get your API key from <a href="https://platform.openai.com/api-keys" target="_blank" rel="noopener noreferrer">OpenAI Platform</a> (sign up/login required).
+                The key should start with "sk-".
+              </>
+            )}
+            {settings.provider === 'watsonx' && 'An IBM Cloud API key with access to the watsonx.ai project.'}
+            {settings.provider === 'azure-openai' && 'One of the keys from your Azure OpenAI resource.'}
+            {settings.provider === 'openai-compatible' && 'Only needed if your server requires a bearer token.'}
+            {' '}Your API key is stored in Chrome's sync storage and never shared.
           </div>
           <input
             id="apiKey"
             type="password"
             className="api-key-input"
-            value={apiKey}
-            onChange={(e) => setApiKey(e.target.value)}
-            placeholder="sk-..."
+            value={settings.apiKey}
+            onChange={(e) => setSettings({ ...settings, apiKey: e.target.value })}
+            placeholder={settings.provider === 'openai' ? 'sk-...' : ''}
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="timeoutSeconds">Request Timeout (seconds)</label>
+          <div className="help-text">Local models on slow hardware may need a longer timeout.</div>
+          <input
+            id="timeoutSeconds"
+            type="number"
+            min={5}
+            max={600}
+            value={settings.timeoutSeconds ?? ''}
+            onChange={(e) => setSettings({ ...settings, timeoutSeconds: e.target.value === '' ? undefined : Number(e.target.value) })}
+            placeholder={String(DEFAULT_TIMEOUT_SECONDS)}
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="maxRetries">Retries</label>
+          <div className="help-text">How many times to retry after a rate limit, server error or network failure. Waits grow exponentially and honor the provider's Retry-After.</div>
+          <input
+            id="maxRetries"
+            type="number"
+            min={0}
+            max={5}
+            value={settings.maxRetries ?? ''}
+            onChange={(e) => setSettings({ ...settings, maxRetries: e.target.value === '' ? undefined : Number(e.target.value) })}
+            placeholder={String(DEFAULT_MAX_RETRIES)}
           />
         </div>
         <button className="save-button" onClick={handleSave}>
@@ -66,6 +511,420 @@ const Options: React.FC = () => {
         )}
       </div>
 
+      <div className="section">
+        <h2>Usage &amp; Cost</h2>
+        <div className="usage-totals">
+          {renderTotals('Today', todayTotals)}
+          {renderTotals('This month', monthTotals)}
+        </div>
+        {usageSettings.monthlyCap && (
+          <div className="help-text">
+            ${monthTotals.cost.toFixed(2)} of the ${usageSettings.monthlyCap.toFixed(2)} monthly cap used.
+          </div>
+        )}
+        {usageSettings.monthlyCap && settings.model.trim() && !findModelPrice(settings.model.trim(), usageSettings.prices) && (
+          <div className="status-message error">
+            The model "{settings.model.trim()}" has no price below, so parsing is blocked while the cap is set.
+            Add a price for it or remove the cap.
+          </div>
+        )}
+
+        {usageLog.length > 0 && (
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>Date</th>
+                <th>Vendor</th>
+                <th>Model</th>
+                <th>Tokens (in / out)</th>
+                <th>Cost</th>
+              </tr>
+            </thead>
+            <tbody>
+              {usageLog.slice(-25).reverse().map((record, index) => (
+                <tr key={`${record.timestamp}-${index}`}>
+                  <td>{new Date(record.timestamp).toLocaleString()}</td>
+                  <td>{record.vendor || '—'}</td>
+                  <td>{record.model}</td>
+                  <td>{record.promptTokens.toLocaleString()} / {record.completionTokens.toLocaleString()}</td>
+                  <td>{formatCost(record.cost)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        <div className="form-group">
+          <label htmlFor="monthlyCap">Monthly Spend Cap (USD, Optional)</label>
+          <div className="help-text">New receipts won't be sent to the AI provider once this month's estimated spend reaches the cap.</div>
+          <input
+            id="monthlyCap"
+            type="number"
+            min={0}
+            step="0.01"
+            value={monthlyCap}
+            onChange={(e) => setMonthlyCap(e.target.value)}
+            placeholder="No cap"
+          />
+        </div>
+
+        <div className="form-group">
+          <label>Prices (USD per 1M tokens)</label>
+          <div className="help-text">
+            Models are matched by exact name, then by prefix. For Azure OpenAI, add a row for your deployment name.
+          </div>
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>Model</th>
+                <th>Input</th>
+                <th>Output</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {priceRows.map((row, index) => (
+                <tr key={index}>
+                  <td><input type="text" value={row.model} onChange={(e) => updatePriceRow(index, 'model', e.target.value)} /></td>
+                  <td><input type="number" min={0} step="0.01" value={row.input} onChange={(e) => updatePriceRow(index, 'input', e.target.value)} /></td>
+                  <td><input type="number" min={0} step="0.01" value={row.output} onChange={(e) => updatePriceRow(index, 'output', e.target.value)} /></td>
+                  <td>
+                    <button className="link-button" onClick={() => setPriceRows(priceRows.filter((_, i) => i !== index))}>Remove</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button className="link-button" onClick={() => setPriceRows([...priceRows, { model: '', input: '', output: '' }])}>
+            + Add model
+          </button>
+        </div>
+
+        <button className="save-button" onClick={handleSaveUsageSettings}>
+          Save Cost Settings
+        </button>
+        <button className="link-button" onClick={handleClearUsage}>
+          Clear usage history
+        </button>
+        {usageStatus && (
+          <div className={`status-message ${usageStatus.type}`}>
+            {usageStatus.message}
+          </div>
+        )}
+      </div>
+
+      <div className="section">
+        <h2>Extraction Prompt</h2>
+        <div className="help-text">
+          Current version: <strong>{promptTemplate.version}</strong>
+          {promptTemplate.version !== DEFAULT_PROMPT_TEMPLATE.version && ' (customized)'}.
+          Each save creates a new version, which is recorded with every parsed receipt.
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="promptSystem">System Message</label>
+          <textarea
+            id="promptSystem"
+            className="prompt-editor"
+            rows={2}
+            value={draftSystem}
+            onChange={(e) => setDraftSystem(e.target.value)}
+          />
+        </div>
+
+        <div className="form-group">
+          <label htmlFor="promptBody">Prompt Template</label>
+          <div className="help-text">
+            Placeholders:
+            <ul className="placeholder-list">
+              {Object.keys(PROMPT_PLACEHOLDERS).map((name) => (
+                <li key={name}>
+                  <code>{`{{${name}}}`}</code> - {PROMPT_PLACEHOLDERS[name as keyof typeof PROMPT_PLACEHOLDERS]}
+                </li>
+              ))}
+            </ul>
+            Keep the JSON field names unchanged - responses are validated against them.
+          </div>
+          <textarea
+            id="promptBody"
+            className="prompt-editor"
+            rows={18}
+            value={draftBody}
+            onChange={(e) => setDraftBody(e.target.value)}
+          />
+        </div>
+
+        <button className="save-button" onClick={handleSavePrompt}>
+          Save Prompt
+        </button>
+        <div className="button-row">
+          <button className="link-button" onClick={handlePreviewPrompt}>Preview with sample receipt</button>
+          <button className="link-button" onClick={handleTestPrompt} disabled={promptTest?.loading}>
+            {promptTest?.loading ? 'Testing...' : 'Test against sample receipt'}
+          </button>
+          <button className="link-button" onClick={handleResetPrompt}>Reset to default</button>
+        </div>
+        {promptStatus && (
+          <div className={`status-message ${promptStatus.type}`}>
+            {promptStatus.message}
+          </div>
+        )}
+        {promptPreview !== null && (
+          <>
+            <label>Rendered Prompt</label>
+            <pre className="prompt-preview">{promptPreview}</pre>
+          </>
+        )}
+        {promptTest?.error && (
+          <div className="status-message error">{promptTest.error}</div>
+        )}
+        {promptTest?.result && (
+          <>
+            <label>Model Result for the Sample Receipt</label>
+            <pre className="prompt-preview">{JSON.stringify(promptTest.result, null, 2)}</pre>
+          </>
+        )}
+      </div>
+
+      <div className="section">
+        <h2>Form Field Mappings</h2>
+        <p className="help-text">
+          The NYU Engage forms the extension recognizes and which field each parsed value fills, matched by the
+          field's label. Each form has an <code>id</code>, a <code>name</code>, a <code>titlePattern</code> and its
+          <code>mappings</code>; a form is recognized by its title and which of its questions are on the page. Edit
+          this if a form's wording changes. Each mapping has a <code>fieldName</code>, a <code>labelPattern</code> (regular
+          expression, case-insensitive), a <code>widget</code> ({WIDGET_KINDS.join(', ')}), a <code>source</code>
+          {' '}({SOURCE_KEYS.join(', ')}), an optional <code>transform</code> ({FIELD_TRANSFORMS.join(', ')}) and an
+          optional <code>fillPolicy</code> ({FILL_POLICIES.join(', ')}).
+        </p>
+        <textarea
+          className="prompt-editor"
+          rows={16}
+          value={mappingDraft}
+          onChange={(e) => setMappingDraft(e.target.value)}
+        />
+        <button className="save-button" onClick={() => handleSaveMappings()}>
+          Save Mappings
+        </button>
+        <div className="button-row">
+          <button className="link-button" onClick={handleExportMappings}>Export</button>
+          <label className="link-button">
+            Import
+            <input type="file" accept=".json,application/json" onChange={handleImportMappings} hidden />
+          </label>
+          <button className="link-button" onClick={handleResetMappings}>Reset to defaults</button>
+        </div>
+        {mappingStatus && (
+          <div className={`status-message ${mappingStatus.type}`}>
+            {mappingStatus.message}
+            {mappingStatus.errors && (
+              <ul className="placeholder-list">
+                {mappingStatus.errors.map((error) => <li key={error}>{error}</li>)}
+              </ul>
+            )}
+          </div>
+        )}
+
+        <label style={{ marginTop: '20px' }}>Taught Fields</label>
+        <div className="help-text">
+          Questions mapped with Teach Fields in the side panel, by form page. They are filled along with the mappings
+          above on the page they were taught on.
+        </div>
+        {taughtPages.length === 0 ? (
+          <p className="help-text">No fields taught yet.</p>
+        ) : (
+          <table className="usage-table">
+            <thead>
+              <tr>
+                <th>Page</th>
+                <th>Fields</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {taughtPages.map((page) => (
+                <tr key={`${page.path}#${page.fingerprint}`}>
+                  <td className="correction-value">
+                    {page.title || page.path}
+                    <div className="help-text">{page.path}</div>
+                  </td>
+                  <td className="correction-value">
+                    {page.fields.map((field) => (
+                      <div key={field.label}>
+                        {field.mapping.fieldName} → {TEACHABLE_SOURCES.find((source) => source.key === field.mapping.source)?.label || field.mapping.source}
+                      </div>
+                    ))}
+                  </td>
+                  <td>
+                    <button className="link-button" onClick={() => handleRemoveTaughtPage(page)}>Remove</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="section">
+        <h2>Privacy &amp; Redaction</h2>
+        <p className="help-text">
+          Personal data is masked in the receipt text before it is sent to the AI provider. Use
+          "Show what will be sent" in the side panel to check the result for a receipt.
+        </p>
+        <label className="checkbox-label">
+          <input
+            type="checkbox"
+            checked={redaction.enabled}
+            onChange={(e) => setRedaction({ ...redaction, enabled: e.target.checked })}
+          />
+          Redact personal data before sending
+        </label>
+        {BUILT_IN_RULES.map((rule) => (
+          <label key={rule.id} className="checkbox-label indented">
+            <input
+              type="checkbox"
+              disabled={!redaction.enabled}
+              checked={!redaction.disabledRules.includes(rule.id)}
+              onChange={(e) => toggleRedactionRule(rule.id, e.target.checked)}
+            />
+            {rule.label}
+            <span className="help-text"> - {rule.description}</span>
+          </label>
+        ))}
+        <label className="checkbox-label indented">
+          <input
+            type="checkbox"
+            disabled={!redaction.enabled}
+            checked={redaction.sendReceiptImage}
+            onChange={(e) => setRedaction({ ...redaction, sendReceiptImage: e.target.checked })}
+          />
+          Also send receipt photos to vision-capable models
+          <span className="help-text"> - photos can't be redacted, so they are withheld unless this is on</span>
+        </label>
+
+        <div className="form-group">
+          <label>Custom Rules</label>
+          <div className="help-text">Regular expressions (case-insensitive) to mask, e.g. an employee ID format.</div>
+          {redaction.customRules.length > 0 && (
+            <table className="usage-table">
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Pattern</th>
+                  <th>Replace with</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {redaction.customRules.map((rule, index) => (
+                  <tr key={index}>
+                    <td><input type="text" value={rule.label} onChange={(e) => updateCustomRule(index, 'label', e.target.value)} /></td>
+                    <td><input type="text" value={rule.pattern} onChange={(e) => updateCustomRule(index, 'pattern', e.target.value)} placeholder="EMP\s*\d{6}" /></td>
+                    <td><input type="text" value={rule.replacement} onChange={(e) => updateCustomRule(index, 'replacement', e.target.value)} placeholder="[REDACTED]" /></td>
+                    <td>
+                      <button
+                        className="link-button"
+                        onClick={() => setRedaction({ ...redaction, customRules: redaction.customRules.filter((_, i) => i !== index) })}
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <button
+            className="link-button"
+            onClick={() => setRedaction({ ...redaction, customRules: [...redaction.customRules, { label: '', pattern: '', replacement: '' }] })}
+          >
+            + Add rule
+          </button>
+        </div>
+
+        <button className="save-button" onClick={handleSaveRedaction}>
+          Save Privacy Settings
+        </button>
+        {redactionStatus && (
+          <div className={`status-message ${redactionStatus.type}`}>
+            {redactionStatus.message}
+          </div>
+        )}
+      </div>
+
+      <div className="section">
+        <h2>Learned Corrections</h2>
+        <p className="help-text">
+          When you change the vendor, purchase type or description after an auto-fill, the correction is saved on
+          this device and used as a hint when parsing similar receipts.
+        </p>
+        {corrections.length === 0 ? (
+          <p className="help-text">No corrections recorded yet.</p>
+        ) : (
+          <>
+            <table className="usage-table">
+              <thead>
+                <tr>
+                  <th>Receipt</th>
+                  <th>Field</th>
+                  <th>AI value</th>
+                  <th>Corrected to</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {corrections.slice().reverse().map((correction) => (
+                  <tr key={correction.id}>
+                    <td>
+                      {correction.features.vendor || '—'}
+                      <div className="help-text">{new Date(correction.timestamp).toLocaleDateString()}</div>
+                    </td>
+                    <td>{correction.field.replace('_', ' ')}</td>
+                    <td className="correction-value">{correction.modelValue}</td>
+                    <td className="correction-value">{correction.correctedValue}</td>
+                    <td>
+                      <button className="link-button" onClick={() => handleDeleteCorrection(correction.id)}>Delete</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <button className="link-button" onClick={handleClearCorrections}>Delete all corrections</button>
+          </>
+        )}
+      </div>
+
+      <div className="section">
+        <h2>Cached Results</h2>
+        <p className="help-text">
+          Parsed receipts are cached on this device for 30 days, so analyzing the same receipt again
+          doesn't call the AI provider. Use "Re-analyze" in the side panel to refresh a single receipt.
+        </p>
+        <button className="save-button" onClick={handleClearCache}>
+          Clear Cache
+        </button>
+      </div>
+
+      <div className="section">
+        <h2>NYU Engage Events</h2>
+        <p className="help-text">
+          Events are collected from NYU Engage pages you open - your club's Events tab, the events list, or an
+          event's page - and used to fill the event link. Open your club's Events tab before submitting an expense
+          to pick up new events.
+        </p>
+        {engageEvents.length === 0 ? (
+          <p className="help-text">No events collected yet.</p>
+        ) : (
+          <p className="help-text">
+            {engageEvents.length} event(s) collected, from {engageEvents.map((event) => event.date).sort()[0]} to{' '}
+            {engageEvents.map((event) => event.date).sort().reverse()[0]}.
+          </p>
+        )}
+        <button className="save-button" onClick={handleClearEngageEvents} disabled={engageEvents.length === 0}>
+          Clear Events
+        </button>
+      </div>
+
       <div className="section">
         <h2>About</h2>
         <p style={{ color: '#666', lineHeight: '1.6', fontSize: '14px' }}>
@@ -82,4 +941,3 @@ if (container) {
   const root = createRoot(container);
   root.render(<Options />);
 }
-
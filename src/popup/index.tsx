@@ -1,8 +1,58 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
-import { UserProfile, ParsedExpenseData, FillSummary } from '../types';
+import { UserProfile, ParsedExpenseData, DescriptionContext, DescriptionPreset, FillAlternative, FillResult, FillSummary, FormOptions, FormType, PageExtraction, ReceiptSegment, ReviewMode } from '../types';
+import { isImageReceipt } from '../utils/imageReceipt';
+import { loadRedactionSettings, redactReceiptText, shouldSendReceiptImage } from '../utils/redaction';
+import { DEFAULT_DESCRIPTION_PRESET, DESCRIPTION_PRESETS } from '../utils/descriptionPresets';
+import { DEFAULT_PAYMENT_METHODS, DEFAULT_PURCHASE_TYPES } from '../utils/promptTemplates';
+import { buildReceiptFeatures } from '../utils/corrections';
+import { CONFIDENCE_THRESHOLD } from '../utils/constants';
+import {
+  DEFAULT_REVIEW_MODE,
+  REVIEW_FIELDS,
+  REVIEW_MODES,
+  ReviewField,
+  ReviewFieldKey,
+  applyReviewEdits,
+  findSourceSnippet,
+  formatReviewValue,
+  shouldReviewBeforeFill
+} from '../utils/reviewFields';
 import './popup.css';
 
+// Receipts found in the selected file, ready to send for parsing
+interface ExtractedReceipts {
+  segments: ReceiptSegment[];
+  receiptImage?: string; // Photo data URL for vision-capable models
+  attachmentFile: File; // The file attached to the Engage form - images are converted to a single-page PDF
+}
+
+interface SendPreview {
+  receipts: { index: number; text: string; counts: { [label: string]: number } }[];
+  includesImage: boolean;
+  withheldImage: boolean; // A photo that redaction keeps back
+}
+
+interface DetectedReceipt {
+  segment: ReceiptSegment;
+  data: ParsedExpenseData;
+}
+
+// A parsed receipt shown for editing before it is filled
+interface PendingReview {
+  receipt: DetectedReceipt;
+  attachmentFile: File;
+  attachOnlyReceiptPages: boolean;
+  values: { [key in ReviewFieldKey]?: string };
+}
+
+// Readable names for the canonical choice values used when the form's own labels weren't read
+const CHOICE_LABELS: { [value: string]: string } = {
+  club_card_no_extra: 'Club Card (no extra funding)',
+  club_card_with_extra: 'Club Card (with extra funding)',
+  out_of_pocket: 'Out of Pocket'
+};
+
 const Popup: React.FC = () => {
   const [profile, setProfile] = useState<UserProfile>({
     purchaser_name: '',
@@ -15,11 +65,57 @@ const Popup: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [fillSummary, setFillSummary] = useState<FillSummary | null>(null);
   const [showSettings, setShowSettings] = useState(false);
+  const [ocrPages, setOcrPages] = useState<PageExtraction[]>([]);
+  const [receipts, setReceipts] = useState<DetectedReceipt[]>([]);
+  const [filledReceipts, setFilledReceipts] = useState<number[]>([]);
+  const [attachment, setAttachment] = useState<File | null>(null);
+  const [parsedData, setParsedData] = useState<ParsedExpenseData | null>(null);
+  const [cancelling, setCancelling] = useState(false);
+  const [sendPreview, setSendPreview] = useState<SendPreview | null>(null);
+  // Optional details for the description, entered per receipt
+  const [eventName, setEventName] = useState('');
+  const [attendees, setAttendees] = useState('');
+  const [descriptionOptions, setDescriptionOptions] = useState<string[]>([]);
+  const [regenerating, setRegenerating] = useState(false);
+  // Options read from the form for the current run (e.g. the description's length limit)
+  const formOptionsRef = useRef<FormOptions | undefined>(undefined);
+  // Engage form on the active tab: undefined when not checked or not on Engage, null when unrecognized
+  const [formType, setFormType] = useState<FormType | null | undefined>(undefined);
+  const [teaching, setTeaching] = useState(false);
+  const [review, setReview] = useState<PendingReview | null>(null);
+  // requestId of the parse running in the background, and whether the user cancelled this run
+  const activeParseId = useRef<string | null>(null);
+  const cancelRequested = useRef(false);
 
   useEffect(() => {
     loadProfile();
   }, []);
 
+  // Show which form is open, and keep it current as the user switches tabs or pages
+  useEffect(() => {
+    readFormOptions();
+    const handleActivated = () => { readFormOptions(); };
+    const handleUpdated = (tabId: number, changeInfo: { status?: string }, tab: chrome.tabs.Tab) => {
+      if (changeInfo.status === 'complete' && tab.active) readFormOptions();
+    };
+    // Teach mode was ended on the page with Esc
+    const handleMessage = (message: { action?: string }) => {
+      if (message.action === 'teachModeStopped') {
+        setTeaching(false);
+        setStatus(null);
+        readFormOptions();
+      }
+    };
+    chrome.tabs.onActivated.addListener(handleActivated);
+    chrome.tabs.onUpdated.addListener(handleUpdated);
+    chrome.runtime.onMessage.addListener(handleMessage);
+    return () => {
+      chrome.tabs.onActivated.removeListener(handleActivated);
+      chrome.tabs.onUpdated.removeListener(handleUpdated);
+      chrome.runtime.onMessage.removeListener(handleMessage);
+    };
+  }, []);
+
   const loadProfile = async () => {
     const storage = await chrome.storage.sync.get(['userProfile']);
     if (storage.userProfile) {
@@ -35,17 +131,18 @@ const Popup: React.FC = () => {
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file && file.type === 'application/pdf') {
+    if (file && (file.type === 'application/pdf' || isImageReceipt(file))) {
       setSelectedFile(file);
       setStatus({ type: 'info', message: `Selected: ${file.name}` });
     } else {
-      setStatus({ type: 'error', message: 'Please select a PDF file' });
+      setStatus({ type: 'error', message: 'Please select a PDF or image (JPG, PNG, WebP, HEIC) file' });
     }
   };
 
-  const handleAutoFill = async () => {
+  // bypassCache re-runs the AI on a receipt that was already analyzed
+  const handleAutoFill = async (bypassCache: boolean = false) => {
     if (!selectedFile) {
-      setStatus({ type: 'error', message: 'Please select a receipt PDF first' });
+      setStatus({ type: 'error', message: 'Please select a receipt PDF or image first' });
       return;
     }
 
@@ -55,123 +152,554 @@ const Popup: React.FC = () => {
     }
 
     setLoading(true);
-    setStatus({ type: 'info', message: 'Parsing PDF...' });
+    setCancelling(false);
+    cancelRequested.current = false;
+    setOcrPages([]);
+    setReceipts([]);
+    setFilledReceipts([]);
+    setFillSummary(null);
+    setParsedData(null);
+    setSendPreview(null);
+    setDescriptionOptions([]);
+    setReview(null);
 
     try {
-      // Parse PDF in popup context (has DOM access)
-      const { extractTextFromPDF } = await import('../utils/pdfParser');
-      const pdfText = await extractTextFromPDF(selectedFile);
-      
-      setStatus({ type: 'info', message: 'Analyzing receipt with AI...' });
-      
-      // Send extracted text to background script for OpenAI processing
-      const response = await chrome.runtime.sendMessage({
-        action: 'parseReceipt',
-        pdfText: pdfText,
-        userProfile: profile
+      const { segments, receiptImage, attachmentFile } = await extractReceipts(selectedFile);
+      setAttachment(attachmentFile);
+
+      // The form's own option labels, so the model answers with one of them
+      const formOptions = await readFormOptions();
+      formOptionsRef.current = formOptions;
+
+      const detected: DetectedReceipt[] = [];
+      for (const segment of segments) {
+        if (cancelRequested.current) {
+          throw new Error('Receipt analysis cancelled.');
+        }
+        setStatus({
+          type: 'info',
+          message: segments.length > 1
+            ? `Analyzing receipt ${segment.index + 1} of ${segments.length} with AI...`
+            : 'Analyzing receipt with AI...'
+        });
+
+        // Send extracted text (and the photo, for vision-capable models) to background script for AI processing
+        const requestId = crypto.randomUUID();
+        activeParseId.current = requestId;
+        const response = await chrome.runtime.sendMessage({
+          action: 'parseReceipt',
+          requestId,
+          pdfText: segment.text,
+          receiptImage: receiptImage,
+          userProfile: profile,
+          formOptions,
+          descriptionContext: getDescriptionContext(),
+          bypassCache
+        });
+        activeParseId.current = null;
+
+        if (!response.success) {
+          throw new Error(response.error || 'Failed to parse receipt');
+        }
+        detected.push({ segment, data: response.data });
+      }
+
+      if (detected.length === 1) {
+        await fillOrReview(detected[0], attachmentFile, false);
+      } else {
+        setReceipts(detected);
+        setStatus({ type: 'info', message: `Found ${detected.length} receipts in this file. Choose one to fill the form with.` });
+      }
+    } catch (error: any) {
+      setStatus(cancelRequested.current
+        ? { type: 'info', message: 'Receipt analysis cancelled.' }
+        : { type: 'error', message: error.message || 'An error occurred' });
+    } finally {
+      activeParseId.current = null;
+      setLoading(false);
+      setCancelling(false);
+    }
+  };
+
+  // Extract text in popup context (has DOM/canvas access)
+  const extractReceipts = async (file: File): Promise<ExtractedReceipts> => {
+    const isImage = isImageReceipt(file);
+    setStatus({ type: 'info', message: isImage ? 'Reading receipt image...' : 'Parsing PDF...' });
+
+    if (isImage) {
+      const { prepareReceiptImage, extractTextFromImage, convertImageToPDF } = await import('../utils/imageReceipt');
+      const prepared = await prepareReceiptImage(file);
+      const extraction = await extractTextFromImage(prepared);
+      setOcrPages(extraction.pages);
+      return {
+        // A photo is always treated as a single receipt
+        segments: [{ index: 0, pages: [1], pageStart: 1, pageEnd: 1, text: extraction.text }],
+        receiptImage: prepared.dataUrl,
+        attachmentFile: await convertImageToPDF(prepared, file.name)
+      };
+    }
+
+    const { extractTextFromPDF } = await import('../utils/pdfParser');
+    const { detectReceiptSegments } = await import('../utils/receiptSplitter');
+    const extraction = await extractTextFromPDF(file);
+    setOcrPages(extraction.pages.filter(page => page.source === 'ocr'));
+
+    if (!extraction.text.trim()) {
+      throw new Error('No text could be read from this PDF, even with OCR. Try a clearer scan.');
+    }
+    let segments = detectReceiptSegments(extraction.pages);
+    if (segments.length === 0) {
+      segments = [{ index: 0, pages: extraction.pages.map(page => page.pageNumber), pageStart: 1, pageEnd: extraction.pages.length, text: extraction.text }];
+    }
+    return { segments, attachmentFile: file };
+  };
+
+  // Show the redacted receipt text exactly as it would be sent, without calling the AI
+  const handlePreviewSend = async () => {
+    if (!selectedFile) return;
+    setLoading(true);
+    setSendPreview(null);
+    try {
+      const { segments, receiptImage } = await extractReceipts(selectedFile);
+      const settings = await loadRedactionSettings();
+      setSendPreview({
+        receipts: segments.map((segment) => ({ index: segment.index, ...redactReceiptText(segment.text, settings) })),
+        includesImage: Boolean(receiptImage) && shouldSendReceiptImage(settings),
+        withheldImage: Boolean(receiptImage) && !shouldSendReceiptImage(settings)
       });
+      setStatus(settings.enabled
+        ? { type: 'info', message: 'Preview of the receipt text sent to the AI provider, with personal data masked.' }
+        : { type: 'warning', message: 'Redaction is turned off in Options - the receipt text below is sent as-is.' });
+    } catch (error: any) {
+      setStatus({ type: 'error', message: error.message || 'An error occurred' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    cancelRequested.current = true;
+    setCancelling(true);
+    setStatus({ type: 'info', message: 'Cancelling...' });
+    // Text extraction in the panel stops at the next step; the AI request is aborted in the background
+    if (activeParseId.current) {
+      await chrome.runtime.sendMessage({ action: 'cancelParse', requestId: activeParseId.current });
+    }
+  };
 
+  const handleFillReceipt = async (receipt: DetectedReceipt) => {
+    if (!attachment) return;
+    setLoading(true);
+    try {
+      if (await fillOrReview(receipt, attachment, true)) {
+        setFilledReceipts(prev => prev.includes(receipt.segment.index) ? prev : [...prev, receipt.segment.index]);
+      }
+    } catch (error: any) {
+      setStatus({ type: 'error', message: error.message || 'An error occurred' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Fill right away, or first show the values for review; returns whether the form was filled
+  const fillOrReview = async (receipt: DetectedReceipt, attachmentFile: File, attachOnlyReceiptPages: boolean): Promise<boolean> => {
+    if (!shouldReviewBeforeFill(receipt.data, profile.review_before_fill)) {
+      setReview(null);
+      await fillFormWithReceipt(receipt, attachmentFile, attachOnlyReceiptPages);
+      return true;
+    }
+    setParsedData(receipt.data);
+    setFillSummary(null);
+    setReview({
+      receipt,
+      attachmentFile,
+      attachOnlyReceiptPages,
+      values: Object.fromEntries(REVIEW_FIELDS.map(field => [field.key, formatReviewValue(receipt.data[field.key].value)]))
+    });
+    setStatus({ type: 'info', message: 'Check the values below and correct any that are wrong, then apply them to the page.' });
+    return false;
+  };
+
+  const handleApplyReview = async () => {
+    if (!review) return;
+    const { receipt, attachmentFile, attachOnlyReceiptPages } = review;
+    const data = applyReviewEdits(receipt.data, review.values);
+    setLoading(true);
+    try {
+      recordReviewCorrections(receipt.data, data);
+      await fillFormWithReceipt({ ...receipt, data }, attachmentFile, attachOnlyReceiptPages);
+      if (attachOnlyReceiptPages) {
+        setFilledReceipts(prev => prev.includes(receipt.segment.index) ? prev : [...prev, receipt.segment.index]);
+      }
+      setReview(null);
+    } catch (error: any) {
+      setStatus({ type: 'error', message: error.message || 'An error occurred' });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Edits made in the review step are learned from, like edits made on the page
+  const recordReviewCorrections = (original: ParsedExpenseData, edited: ParsedExpenseData) => {
+    const features = buildReceiptFeatures(original);
+    (['vendor_name', 'purchase_type', 'description'] as const).forEach((field) => {
+      const modelValue = original[field].value;
+      const correctedValue = edited[field].value;
+      if (!modelValue || !correctedValue || modelValue === correctedValue) return;
+      chrome.runtime.sendMessage({
+        action: 'recordCorrection',
+        correction: { field, features, modelValue, correctedValue }
+      }).catch((error) => console.warn('Could not record correction:', error));
+    });
+  };
+
+  const handleCancelReview = () => {
+    setReview(null);
+    setStatus({ type: 'info', message: 'Nothing was filled.' });
+  };
+
+  const updateReviewValue = (key: ReviewFieldKey, value: string) => {
+    setReview(prev => prev && { ...prev, values: { ...prev.values, [key]: value } });
+  };
+
+  // The open form's options for the field, else the canonical values for the two choice fields
+  const getChoiceOptions = (field: ReviewField, current: string): string[] => {
+    const live = formOptionsRef.current?.choices?.[field.key];
+    const options = live?.length ? live : field.key === 'payment_method' ? DEFAULT_PAYMENT_METHODS : DEFAULT_PURCHASE_TYPES;
+    return current && !options.includes(current) ? [current, ...options] : options;
+  };
+
+  const renderReviewInput = (field: ReviewField) => {
+    const value = review?.values[field.key] ?? '';
+    const onChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => updateReviewValue(field.key, e.target.value);
+    // A text field the form asks as a dropdown (e.g. the club) is picked from its options too
+    const kind = field.kind === 'text' && formOptionsRef.current?.choices?.[field.key]?.length ? 'choice' : field.kind;
+    switch (kind) {
+      case 'choice':
+        return (
+          <select value={value} onChange={onChange}>
+            {!value && <option value="">Choose...</option>}
+            {getChoiceOptions(field, value).map((option) => (
+              <option key={option} value={option}>{CHOICE_LABELS[option] || option.charAt(0).toUpperCase() + option.slice(1)}</option>
+            ))}
+          </select>
+        );
+      case 'long_text':
+        return <textarea rows={4} value={value} onChange={onChange} />;
+      case 'date':
+        return <input type="date" value={value} onChange={onChange} />;
+      case 'amount':
+        return <input type="number" min="0" step="0.01" value={value} onChange={onChange} />;
+      default:
+        return <input type="text" value={value} onChange={onChange} />;
+    }
+  };
+
+  const getDescriptionContext = (): DescriptionContext => ({
+    eventName: eventName.trim() || undefined,
+    attendees: parseInt(attendees, 10) > 0 ? parseInt(attendees, 10) : undefined
+  });
+
+  // New description suggestions from the parsed receipt - the receipt itself isn't re-parsed
+  const handleRegenerateDescription = async () => {
+    if (!parsedData) return;
+    setRegenerating(true);
+    try {
+      const response = await chrome.runtime.sendMessage({
+        action: 'regenerateDescriptions',
+        data: parsedData,
+        userProfile: profile,
+        descriptionContext: getDescriptionContext(),
+        maxLength: formOptionsRef.current?.description_max_length
+      });
       if (!response.success) {
-        throw new Error(response.error || 'Failed to parse receipt');
+        throw new Error(response.error || 'Could not generate descriptions');
       }
+      setDescriptionOptions(response.descriptions);
+    } catch (error: any) {
+      setStatus({ type: 'error', message: error.message || 'An error occurred' });
+    } finally {
+      setRegenerating(false);
+    }
+  };
 
-      const parsedData: ParsedExpenseData = response.data;
+  const handleUseDescription = async (description: string) => {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (!tab.id) throw new Error('No active tab found.');
+      // The description's field name comes from the field mapping config
+      const fieldName = fillSummary?.results.find(r => r.source === 'description')?.fieldName || 'Description';
+      const response = await chrome.tabs.sendMessage(tab.id, {
+        action: 'selectAlternative',
+        fieldName,
+        value: description
+      });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Could not change the description');
+      }
 
-      setStatus({ type: 'info', message: 'Filling form...' });
+      setParsedData(prev => prev && { ...prev, description: { value: description, confidence: 1 } });
+      setDescriptionOptions(prev => prev.filter(option => option !== description));
+      setFillSummary(prev => prev && {
+        ...prev,
+        results: prev.results.map(r => r.source !== 'description' ? r : {
+          ...r,
+          filled: true,
+          value: description,
+          confidence: 1,
+          needsReview: false
+        })
+      });
+    } catch (error: any) {
+      setStatus({ type: 'error', message: error.message || 'An error occurred' });
+    }
+  };
 
-      // Get active tab and send fill command
+  // Ask the content script for the form's choice options. Optional: without the form open
+  // (or the script loaded), the model falls back to the built-in option lists.
+  // Map the page's unrecognized questions by clicking them; toggles teach mode on the active tab
+  const handleTeachFields = async () => {
+    try {
       const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
-      if (!tab.id) {
-        throw new Error('No active tab found. Please navigate to the NYU Engage expense form page.');
+      if (!tab?.id) return;
+      if (teaching) {
+        await chrome.tabs.sendMessage(tab.id, { action: 'stopTeachMode' });
+        setTeaching(false);
+        setStatus(null);
+        // Taught fields can make an unrecognized page fillable
+        readFormOptions();
+        return;
       }
+      const response = await chrome.tabs.sendMessage(tab.id, { action: 'startTeachMode' });
+      if (!response?.success || response.questions === 0) {
+        throw new Error('No form questions were found on this page.');
+      }
+      setTeaching(true);
+      setStatus({
+        type: 'info',
+        message: `Click a highlighted question on the page and choose the value that belongs there (${response.questions} questions). Press Done or Esc when finished.`
+      });
+    } catch (error: any) {
+      setStatus({ type: 'error', message: `Could not start teach mode: ${error.message}` });
+    }
+  };
 
-      // Check if the tab URL matches NYU Engage form page
-      // Accept both engage.nyu.edu and nyu.edu/engage URLs, and specifically check for form pages
-      const url = tab.url || '';
-      // Check for engage.nyu.edu OR (nyu.edu AND submitter/form path)
-      const isEngagePage = url.includes('engage.nyu.edu') || (url.includes('nyu.edu') && url.includes('submitter/form'));
-      
-      if (!isEngagePage) {
-        console.error('Current tab URL:', url);
-        throw new Error('Please navigate to the NYU Engage expense form page first. Current page: ' + (url || 'unknown'));
+  const readFormOptions = async (): Promise<FormOptions | undefined> => {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      const url = tab?.url || '';
+      if (!tab?.id || !(url.includes('engage.nyu.edu') || (url.includes('nyu.edu') && url.includes('submitter/form')))) {
+        setFormType(undefined);
+        return undefined;
+      }
+      let response;
+      try {
+        response = await chrome.tabs.sendMessage(tab.id, { action: 'getFormOptions' });
+      } catch (messageError: any) {
+        if (!messageError.message?.includes('Receiving end does not exist')) throw messageError;
+        await chrome.scripting.executeScript({ target: { tabId: tab.id }, files: ['contentScript.js'] });
+        await new Promise(resolve => setTimeout(resolve, 500));
+        response = await chrome.tabs.sendMessage(tab.id, { action: 'getFormOptions' });
       }
+      setFormType(response?.success ? response.formType : undefined);
+      return response?.success && Object.keys(response.options).length > 0 ? response.options : undefined;
+    } catch (error) {
+      console.warn('Could not read the form options:', error);
+      return undefined;
+    }
+  };
 
-      // Convert PDF file to ArrayBuffer for transmission
-      const pdfArrayBuffer = await selectedFile.arrayBuffer();
-      const pdfData = {
-        name: selectedFile.name,
-        type: selectedFile.type,
-        size: selectedFile.size,
-        arrayBuffer: Array.from(new Uint8Array(pdfArrayBuffer)) // Convert to regular array for JSON serialization
-      };
+  const fillFormWithReceipt = async (receipt: DetectedReceipt, attachmentFile: File, attachOnlyReceiptPages: boolean) => {
+    const parsedData: ParsedExpenseData = receipt.data;
+    setParsedData(parsedData);
 
-      try {
-        // Try to send message to content script
-        const fillResponse = await chrome.tabs.sendMessage(tab.id, {
-          action: 'fillForm',
-          data: parsedData,
-          pdfData: pdfData
-        });
+    setStatus({ type: 'info', message: 'Filling form...' });
 
-        if (fillResponse && fillResponse.success) {
-          setFillSummary(fillResponse.summary);
-          const { filledFields, lowConfidenceFields, totalFields } = fillResponse.summary;
-          setStatus({
-            type: lowConfidenceFields > 0 ? 'warning' : 'success',
-            message: `Filled ${filledFields}/${totalFields} fields. ${lowConfidenceFields} need review.`
+    // Get active tab and send fill command
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+    if (!tab.id) {
+      throw new Error('No active tab found. Please navigate to the NYU Engage expense form page.');
+    }
+
+    // Check if the tab URL matches NYU Engage form page
+    // Accept both engage.nyu.edu and nyu.edu/engage URLs, and specifically check for form pages
+    const url = tab.url || '';
+    // Check for engage.nyu.edu OR (nyu.edu AND submitter/form path)
+    const isEngagePage = url.includes('engage.nyu.edu') || (url.includes('nyu.edu') && url.includes('submitter/form'));
+    
+    if (!isEngagePage) {
+      console.error('Current tab URL:', url);
+      throw new Error('Please navigate to the NYU Engage expense form page first. Current page: ' + (url || 'unknown'));
+    }
+
+    // For a multi-receipt file, attach only the pages this receipt appears on
+    let fileToAttach = attachmentFile;
+    if (attachOnlyReceiptPages) {
+      const { extractPDFPages } = await import('../utils/receiptSplitter');
+      const baseName = attachmentFile.name.replace(/\.pdf$/i, '');
+      const pageLabel = receipt.segment.pageStart === receipt.segment.pageEnd
+        ? `p${receipt.segment.pageStart}`
+        : `p${receipt.segment.pageStart}-${receipt.segment.pageEnd}`;
+      fileToAttach = await extractPDFPages(attachmentFile, receipt.segment.pages, `${baseName}-${pageLabel}.pdf`);
+    }
+
+    // Convert PDF file to ArrayBuffer for transmission
+    const pdfArrayBuffer = await fileToAttach.arrayBuffer();
+    const pdfData = {
+      name: fileToAttach.name,
+      type: fileToAttach.type,
+      size: fileToAttach.size,
+      arrayBuffer: Array.from(new Uint8Array(pdfArrayBuffer)) // Convert to regular array for JSON serialization
+    };
+
+    try {
+      // Try to send message to content script
+      const fillResponse = await chrome.tabs.sendMessage(tab.id, {
+        action: 'fillForm',
+        data: parsedData,
+        pdfData: pdfData
+      });
+
+      if (fillResponse && fillResponse.success) {
+        showFillSummary(fillResponse.summary, parsedData);
+      } else {
+        if (fillResponse && fillResponse.formType === null) setFormType(null);
+        throw new Error(fillResponse?.error || 'Failed to fill form - content script did not respond');
+      }
+    } catch (messageError: any) {
+      // If content script isn't loaded, try to inject it
+      if (messageError.message && messageError.message.includes('Receiving end does not exist')) {
+        // Inject content script if not already loaded
+        let fillResponse;
+        try {
+          await chrome.scripting.executeScript({
+            target: { tabId: tab.id },
+            files: ['contentScript.js']
           });
-        } else {
-          throw new Error('Failed to fill form - content script did not respond');
-        }
-      } catch (messageError: any) {
-        // If content script isn't loaded, try to inject it
-        if (messageError.message && messageError.message.includes('Receiving end does not exist')) {
-          // Inject content script if not already loaded
-          try {
-            await chrome.scripting.executeScript({
-              target: { tabId: tab.id },
-              files: ['contentScript.js']
-            });
+        
+          // Wait a bit for script to initialize, then retry
+          await new Promise(resolve => setTimeout(resolve, 500));
           
-            // Wait a bit for script to initialize, then retry
-            await new Promise(resolve => setTimeout(resolve, 500));
-            
-            const fillResponse = await chrome.tabs.sendMessage(tab.id, {
-              action: 'fillForm',
-              data: parsedData,
-              pdfData: pdfData
-            });
-
-            if (fillResponse && fillResponse.success) {
-              setFillSummary(fillResponse.summary);
-              const { filledFields, lowConfidenceFields, totalFields } = fillResponse.summary;
-              setStatus({
-                type: lowConfidenceFields > 0 ? 'warning' : 'success',
-                message: `Filled ${filledFields}/${totalFields} fields. ${lowConfidenceFields} need review.`
-              });
-            } else {
-              throw new Error('Failed to fill form after injecting content script');
-            }
-          } catch (injectError) {
-            throw new Error('Could not inject content script. Please refresh the NYU Engage page and try again.');
-          }
+          fillResponse = await chrome.tabs.sendMessage(tab.id, {
+            action: 'fillForm',
+            data: parsedData,
+            pdfData: pdfData
+          });
+        } catch (injectError) {
+          throw new Error('Could not inject content script. Please refresh the NYU Engage page and try again.');
+        }
+
+        if (fillResponse && fillResponse.success) {
+          showFillSummary(fillResponse.summary, parsedData);
         } else {
-          throw messageError;
+          if (fillResponse && fillResponse.formType === null) setFormType(null);
+          throw new Error(fillResponse?.error || 'Failed to fill form after injecting content script');
         }
+      } else {
+        throw messageError;
+      }
+    }
+  };
+
+  const showFillSummary = (summary: FillSummary, parsedData: ParsedExpenseData) => {
+    setFillSummary(summary);
+    setFormType(summary.formType || null);
+    const { filledFields, lowConfidenceFields, totalFields } = summary;
+    const degraded = parsedData.parser === 'local';
+    const degradedNote = degraded
+      ? ' No API key is set, so a basic offline parser was used - add a key in Options for better results.'
+      : '';
+    const dropped = parsedData.dropped_fields || [];
+    const droppedNote = dropped.length > 0
+      ? ` Invalid AI output was dropped for: ${dropped.join(', ')}.`
+      : '';
+    setStatus({
+      type: lowConfidenceFields > 0 || degraded || dropped.length > 0 ? 'warning' : 'success',
+      message: `Filled ${filledFields}/${totalFields} fields. ${lowConfidenceFields} need review.${degradedNote}${droppedNote}`
+    });
+  };
+
+  // Restore every field the autofill changed to its value before the fill
+  const handleUndoFill = async () => {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (!tab.id) throw new Error('No active tab found.');
+      const response = await chrome.tabs.sendMessage(tab.id, { action: 'undoFill' });
+      if (!response?.success) {
+        throw new Error(response?.error || 'Could not undo the autofill');
       }
+      setFillSummary(null);
+      setDescriptionOptions([]);
+      setStatus({ type: 'success', message: `Restored ${response.restored} field(s) to their values before the autofill.` });
     } catch (error: any) {
       setStatus({ type: 'error', message: error.message || 'An error occurred' });
-    } finally {
-      setLoading(false);
     }
   };
 
+  const handleRevertField = async (result: FillResult) => {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (!tab.id) throw new Error('No active tab found.');
+      const response = await chrome.tabs.sendMessage(tab.id, { action: 'revertField', fieldName: result.fieldName });
+      if (!response?.success) {
+        throw new Error(response?.error || `Could not revert ${result.fieldName}`);
+      }
+      setFillSummary(prev => prev && {
+        ...prev,
+        results: prev.results.map(r => r !== result ? r : {
+          ...r,
+          filled: false,
+          value: undefined,
+          needsReview: false,
+          alternatives: []
+        })
+      });
+    } catch (error: any) {
+      setStatus({ type: 'error', message: error.message || 'An error occurred' });
+    }
+  };
+
+  // Switch a field on the page to one of the alternatives offered (club options, Engage events)
+  const handleSelectAlternative = async (result: FillResult, alternative: FillAlternative) => {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true });
+      if (!tab.id) throw new Error('No active tab found.');
+      const response = await chrome.tabs.sendMessage(tab.id, {
+        action: 'selectAlternative',
+        fieldName: result.fieldName,
+        value: alternative.value
+      });
+      if (!response?.success) {
+        throw new Error(response?.error || `Could not change ${result.fieldName}`);
+      }
+
+      // The user picked this option, so it no longer needs review
+      setFillSummary(prev => prev && {
+        ...prev,
+        results: prev.results.map(r => r !== result ? r : {
+          ...r,
+          filled: true,
+          value: alternative.label,
+          confidence: 1,
+          needsReview: false,
+          alternatives: (r.alternatives || []).filter(a => a !== alternative)
+        })
+      });
+    } catch (error: any) {
+      setStatus({ type: 'error', message: error.message || 'An error occurred' });
+    }
+  };
+
+  const cachedAt = parsedData?.cached_at || receipts.find(receipt => receipt.data.cached_at)?.data.cached_at;
+
   const getConfidenceBadge = (confidence: number) => {
     if (confidence >= 0.8) return 'high';
     if (confidence >= 0.6) return 'medium';
     return 'low';
   };
 
+  const formatMoney = (amount: number | null) => (amount === null ? '–' : `$${amount.toFixed(2)}`);
+
   return (
     <div className="container">
       <div className="header">
@@ -249,9 +777,32 @@ const Popup: React.FC = () => {
             </div>
           </div>
           <div className="form-group">
-            <label>OpenAI API Key</label>
+            <label>Description Style</label>
+            <select
+              value={profile.description_preset || DEFAULT_DESCRIPTION_PRESET}
+              onChange={(e) => setProfile({ ...profile, description_preset: e.target.value as DescriptionPreset })}
+            >
+              {(Object.keys(DESCRIPTION_PRESETS) as DescriptionPreset[]).map((preset) => (
+                <option key={preset} value={preset}>{DESCRIPTION_PRESETS[preset].label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="form-group">
+            <label>Review Before Filling</label>
+            <select
+              value={profile.review_before_fill || DEFAULT_REVIEW_MODE}
+              onChange={(e) => setProfile({ ...profile, review_before_fill: e.target.value as ReviewMode })}
+            >
+              {(Object.keys(REVIEW_MODES) as ReviewMode[]).map((mode) => (
+                <option key={mode} value={mode}>{REVIEW_MODES[mode]}</option>
+              ))}
+            </select>
+            <div className="help-text">Show the parsed values for editing in the side panel before they are written to the form.</div>
+          </div>
+          <div className="form-group">
+            <label>AI Provider & API Key</label>
             <div className="help-text">
-              Configure your API key in the <a href="#" onClick={(e) => { e.preventDefault(); chrome.runtime.openOptionsPage(); }}>Options page</a>
+              Configure your AI provider and API key in the <a href="#" onClick={(e) => { e.preventDefault(); chrome.runtime.openOptionsPage(); }}>Options page</a>
             </div>
           </div>
           <div className="button-group">
@@ -273,10 +824,10 @@ const Popup: React.FC = () => {
         <div className="section">
           <h2>Upload Receipt & Auto-Fill</h2>
           <div className="form-group">
-            <label>Upload Receipt PDF</label>
+            <label>Upload Receipt (PDF or Photo)</label>
             <input
               type="file"
-              accept=".pdf"
+              accept=".pdf,.jpg,.jpeg,.png,.webp,.heic,.heif,image/*"
               onChange={handleFileChange}
             />
           </div>
@@ -285,14 +836,57 @@ const Popup: React.FC = () => {
               <strong>Selected:</strong> {selectedFile.name}
             </div>
           )}
+          {formType !== undefined && (
+            <div className={`form-type ${formType ? '' : 'unknown'}`}>
+              <span>
+                {formType
+                  ? <>Detected form: <strong>{formType.name}</strong></>
+                  : 'This page is not a recognized NYU Engage form - it will not be filled.'}
+              </span>
+              <button className="fill-receipt-button" onClick={handleTeachFields} disabled={loading}>
+                {teaching ? 'Done' : 'Teach Fields'}
+              </button>
+            </div>
+          )}
+          <div className="form-group inline-fields">
+            <div>
+              <label>Event Name (optional)</label>
+              <input
+                type="text"
+                value={eventName}
+                onChange={(e) => setEventName(e.target.value)}
+                placeholder="Spring General Meeting"
+              />
+            </div>
+            <div>
+              <label>Attendees</label>
+              <input
+                type="number"
+                min="1"
+                value={attendees}
+                onChange={(e) => setAttendees(e.target.value)}
+                placeholder="40"
+              />
+            </div>
+          </div>
           <button
             className="primary-button"
-            onClick={handleAutoFill}
+            onClick={() => handleAutoFill()}
             disabled={loading || !selectedFile}
           >
             {loading && <span className="loading"></span>}
             {loading ? 'Processing...' : 'Auto-Fill Expense Form'}
           </button>
+          {!loading && selectedFile && (
+            <button className="cancel-button" onClick={handlePreviewSend}>
+              Show what will be sent
+            </button>
+          )}
+          {loading && receipts.length === 0 && (
+            <button className="cancel-button" onClick={handleCancel} disabled={cancelling}>
+              {cancelling ? 'Cancelling...' : 'Cancel'}
+            </button>
+          )}
         </div>
       )}
 
@@ -302,9 +896,127 @@ const Popup: React.FC = () => {
         </div>
       )}
 
+      {review && (
+        <div className="status-area info review-panel" style={{ marginTop: '12px' }}>
+          <strong>Review Before Filling:</strong>
+          {REVIEW_FIELDS.map((field) => {
+            const parsed = review.receipt.data[field.key];
+            const snippet = findSourceSnippet(review.receipt.segment.text, field, parsed.value);
+            return (
+              <div key={field.key} className={`review-field ${parsed.confidence < CONFIDENCE_THRESHOLD ? 'low' : ''}`}>
+                <div className="review-field-header">
+                  <label>{field.label}</label>
+                  <span className={`confidence-badge ${getConfidenceBadge(parsed.confidence)}`}>
+                    {(parsed.confidence * 100).toFixed(0)}%
+                  </span>
+                </div>
+                {renderReviewInput(field)}
+                <div className="review-source">
+                  {field.origin === 'profile'
+                    ? 'From your profile'
+                    : field.origin === 'generated'
+                      ? 'Generated from the receipt'
+                      : snippet
+                        ? <>Receipt: <code>{snippet}</code></>
+                        : 'Not found in the receipt text'}
+                </div>
+              </div>
+            );
+          })}
+          <button className="primary-button" onClick={handleApplyReview} disabled={loading}>
+            {loading && <span className="loading"></span>}
+            Apply to page
+          </button>
+          <button className="cancel-button" onClick={handleCancelReview} disabled={loading}>
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {sendPreview && (
+        <div className="status-area info" style={{ marginTop: '12px' }}>
+          {sendPreview.receipts.map((receipt) => (
+            <div key={receipt.index}>
+              <strong>{sendPreview.receipts.length > 1 ? `Receipt ${receipt.index + 1}` : 'Receipt text'}</strong>
+              {Object.keys(receipt.counts).length > 0 && (
+                <div className="redaction-counts">
+                  Masked: {Object.keys(receipt.counts).map((label) => `${label} (${receipt.counts[label]})`).join(', ')}
+                </div>
+              )}
+              <pre className="send-preview">{receipt.text}</pre>
+            </div>
+          ))}
+          <div className="redaction-counts">
+            Your profile defaults and the extraction prompt are sent with it.
+            {sendPreview.includesImage && ' The receipt photo itself is also sent to vision-capable models and is not redacted.'}
+            {sendPreview.withheldImage && ' The receipt photo is not sent, because it can\'t be redacted - only the text above.'}
+          </div>
+        </div>
+      )}
+
+      {!loading && cachedAt && (
+        <div className="cache-notice">
+          <span>Loaded from cache (analyzed {new Date(cachedAt).toLocaleString()})</span>
+          <button className="fill-receipt-button" onClick={() => handleAutoFill(true)} disabled={!selectedFile}>
+            Re-analyze
+          </button>
+        </div>
+      )}
+
+      {ocrPages.length > 0 && (
+        <div className="status-area info" style={{ marginTop: '12px' }}>
+          <strong>Scanned pages read with OCR:</strong>
+          <ul className="summary-list">
+            {ocrPages.map((page) => (
+              <li key={page.pageNumber}>
+                <strong>Page {page.pageNumber}: </strong>
+                <span className={`confidence-badge ${getConfidenceBadge(page.ocrConfidence ?? 0)}`}>
+                  {((page.ocrConfidence ?? 0) * 100).toFixed(0)}% quality
+                </span>
+                {(page.ocrConfidence ?? 0) < 0.6 && <span className="needs-review"> (Poor scan – check values)</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {receipts.length > 1 && (
+        <div className="status-area info" style={{ marginTop: '12px' }}>
+          <strong>Detected Receipts:</strong>
+          <ul className="summary-list receipt-list">
+            {receipts.map((receipt) => (
+              <li key={receipt.segment.index}>
+                <div>
+                  <strong>
+                    {receipt.segment.pageStart === receipt.segment.pageEnd
+                      ? `Page ${receipt.segment.pageStart}`
+                      : `Pages ${receipt.segment.pageStart}–${receipt.segment.pageEnd}`}:{' '}
+                  </strong>
+                  {receipt.data.vendor_name.value || 'Unknown vendor'}
+                  {receipt.data.total_amount.value ? ` – $${receipt.data.total_amount.value}` : ''}
+                  {receipt.data.date_of_expense.value ? ` (${receipt.data.date_of_expense.value})` : ''}
+                </div>
+                <button
+                  className="fill-receipt-button"
+                  onClick={() => handleFillReceipt(receipt)}
+                  disabled={loading}
+                >
+                  {filledReceipts.includes(receipt.segment.index) ? 'Filled ✓ – Fill Again' : 'Fill Form'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {fillSummary && (
         <div className="status-area info" style={{ marginTop: '12px' }}>
-          <strong>Fill Summary:</strong>
+          <div className="summary-header">
+            <strong>Fill Summary:</strong>
+            <button className="fill-receipt-button" onClick={handleUndoFill}>
+              Undo
+            </button>
+          </div>
           <ul className="summary-list">
             {fillSummary.results.map((result, idx) => (
               <li key={idx}>
@@ -318,15 +1030,87 @@ const Popup: React.FC = () => {
                       {(result.confidence * 100).toFixed(0)}%
                     </span>
                     {result.needsReview && <span className="needs-review"> (Review needed)</span>}
+                    <button className="link-button" onClick={() => handleRevertField(result)}>
+                      Revert
+                    </button>
+                    {result.discrepancy && <div className="needs-review discrepancy">{result.discrepancy}</div>}
                   </>
                 ) : (
                   <span style={{ color: '#999' }}>Not filled</span>
                 )}
+                {result.alternatives && result.alternatives.length > 0 && (
+                  <div className="alternatives">
+                    {result.filled ? 'Or: ' : 'Closest options: '}
+                    {result.alternatives.map((alternative) => (
+                      <button
+                        key={alternative.value}
+                        className="fill-receipt-button"
+                        onClick={() => handleSelectAlternative(result, alternative)}
+                      >
+                        {alternative.label} ({Math.round(alternative.score * 100)}%)
+                      </button>
+                    ))}
+                  </div>
+                )}
               </li>
             ))}
           </ul>
         </div>
       )}
+
+      {fillSummary && parsedData && (
+        <div className="status-area info" style={{ marginTop: '12px' }}>
+          <strong>Description:</strong>
+          <div className="description-text">{parsedData.description.value || 'No description generated.'}</div>
+          <button className="fill-receipt-button" onClick={handleRegenerateDescription} disabled={regenerating}>
+            {regenerating ? 'Generating...' : 'Regenerate'}
+          </button>
+          {descriptionOptions.length > 0 && (
+            <ul className="summary-list receipt-list">
+              {descriptionOptions.map((option) => (
+                <li key={option}>
+                  <span>{option}</span>
+                  <button className="fill-receipt-button" onClick={() => handleUseDescription(option)}>
+                    Use
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {parsedData?.line_items && parsedData.line_items.length > 0 && (
+        <div className="status-area info" style={{ marginTop: '12px' }}>
+          <strong>Itemized Receipt:</strong>
+          <table className="line-items-table">
+            <thead>
+              <tr>
+                <th>Item</th>
+                <th>Qty</th>
+                <th>Unit</th>
+                <th>Total</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {parsedData.line_items.map((item, idx) => (
+                <tr key={idx}>
+                  <td>{item.description}</td>
+                  <td>{item.quantity ?? '–'}</td>
+                  <td>{formatMoney(item.unit_price)}</td>
+                  <td>{formatMoney(item.line_total)}</td>
+                  <td>
+                    <span className={`confidence-badge ${getConfidenceBadge(item.confidence)}`}>
+                      {(item.confidence * 100).toFixed(0)}%
+                    </span>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 };
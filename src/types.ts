@@ -2,16 +2,63 @@ export interface ParsedExpenseData {
   purchaser_name: { value: string; confidence: number };
   netid: { value: string; confidence: number };
   club_name: { value: string; confidence: number };
-  payment_method: { 
-    value: "club_card_no_extra" | "club_card_with_extra" | "out_of_pocket"; 
-    confidence: number 
-  };
+  // The form's own option label when it was read from the page, else one of DEFAULT_PAYMENT_METHODS
+  payment_method: { value: string; confidence: number };
   vendor_name: { value: string; confidence: number };
   date_of_expense: { value: string; confidence: number };
-  total_amount: { value: string | number; confidence: number };
+  total_amount: { value: string | number | null; confidence: number };
   purchase_type: { value: string; confidence: number };
   event_link: { value: string; confidence: number };
   description: { value: string; confidence: number };
+  line_items?: LineItem[];
+  subtotal?: AmountField;
+  tax?: AmountField;
+  tip?: AmountField;
+  shipping?: AmountField;
+  discount?: AmountField; // Positive number, subtracted from the total
+  amount_check?: AmountBreakdownCheck;
+  review_notes?: { [field: string]: string }; // Why a field was flagged for review, keyed by field name
+  parser?: 'ai' | 'local'; // 'local' when parsed by the rule-based fallback without a model
+  dropped_fields?: string[]; // Fields removed because the model output failed schema validation
+  cached_at?: string; // ISO timestamp of the original parse when served from the parse cache
+  usage?: TokenUsage; // Tokens used by the model calls for this receipt, including any repair pass
+  prompt_version?: string; // Version of the prompt template that produced this result
+  event_candidates?: EventCandidate[]; // Other cached Engage events that could match, best first
+}
+
+// A cached NYU Engage event ranked against a receipt
+export interface EventCandidate {
+  url: string;
+  name: string;
+  date: string; // YYYY-MM-DD
+  location?: string;
+  score: number; // 0-1
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+export interface AmountField {
+  value: number | null;
+  confidence: number;
+}
+
+export interface AmountBreakdownCheck {
+  consistent: boolean;
+  expectedTotal: number; // subtotal + tax + tip + shipping - discount
+  reportedTotal: number;
+  difference: number;
+  message: string;
+}
+
+export interface LineItem {
+  description: string;
+  quantity: number | null;
+  unit_price: number | null;
+  line_total: number | null;
+  confidence: number;
 }
 
 export interface UserProfile {
@@ -19,6 +66,20 @@ export interface UserProfile {
   netid: string;
   default_club: string;
   default_payment_method: "club_card_no_extra" | "club_card_with_extra" | "out_of_pocket";
+  description_preset?: DescriptionPreset;
+  review_before_fill?: ReviewMode;
+}
+
+// When the side panel shows the parsed values for editing before filling the form
+export type ReviewMode = 'low_confidence' | 'always' | 'never';
+
+// Style of the generated purchase description
+export type DescriptionPreset = 'concise' | 'detailed' | 'event_focused' | 'itemized';
+
+// Optional details entered in the side panel for the description
+export interface DescriptionContext {
+  eventName?: string;
+  attendees?: number;
 }
 
 export interface FillResult {
@@ -27,6 +88,21 @@ export interface FillResult {
   confidence: number;
   value?: string;
   needsReview: boolean;
+  discrepancy?: string; // Explanation shown when a cross-check failed
+  alternatives?: FillAlternative[]; // Other close option matches the user can switch to
+  source?: string; // ParsedExpenseData key the value came from
+}
+
+// Current choices of the form's option fields, read from the page before parsing
+export interface FormOptions {
+  choices?: { [source: string]: string[] }; // Option labels of the form's radio and dropdown questions, by source key
+  description_max_length?: number; // maxlength of the description textarea
+}
+
+export interface FillAlternative {
+  value: string; // The option's value attribute
+  label: string;
+  score: number; // Match score 0-1
 }
 
 export interface FillSummary {
@@ -34,6 +110,73 @@ export interface FillSummary {
   totalFields: number;
   filledFields: number;
   lowConfidenceFields: number;
+  formType?: FormType; // The Engage form that was filled
+}
+
+// A recognized NYU Engage form
+export interface FormType {
+  id: string;
+  name: string;
+}
+
+
+
+export interface TextCell {
+  text: string;
+  x: number;
+  width: number;
+  column?: number; // Page-wide column index, when the cell lines up with others
+}
+
+export interface TextLine {
+  text: string; // Cells joined with spacing that reflects their horizontal gaps
+  y: number;
+  cells: TextCell[];
+}
+
+export interface PageExtraction {
+  pageNumber: number;
+  source: 'text' | 'ocr';
+  charCount: number;
+  ocrConfidence?: number; // 0-1, only set when source is 'ocr'
+  lines: TextLine[]; // Reading-order lines rebuilt from text positions
+}
+
+export interface PDFExtractionResult {
+  text: string;
+  pages: PageExtraction[];
 }
 
+export interface ReceiptSegment {
+  index: number;
+  pages: number[]; // 1-based page numbers this receipt appears on
+  pageStart: number;
+  pageEnd: number;
+  text: string;
+}
+
+export type ProviderId = 'openai' | 'azure-openai' | 'watsonx' | 'openai-compatible';
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  model: string; // Model name, or the deployment name for Azure OpenAI
+  endpoint: string; // Base URL of the provider API
+  apiKey: string;
+  apiVersion?: string; // Azure OpenAI only
+  projectId?: string; // watsonx only
+  authEndpoint?: string; // watsonx only - IAM token endpoint override
+  timeoutSeconds?: number; // Per-request timeout, defaults to 60
+  maxRetries?: number; // Retries on rate limits, server errors and network failures, defaults to 2
+}
 
+// Why an AI request failed, so the side panel can show a specific message
+export type ApiErrorCategory =
+  | 'auth'
+  | 'quota'
+  | 'rate_limit'
+  | 'network'
+  | 'timeout'
+  | 'server'
+  | 'malformed'
+  | 'request'
+  | 'cancelled';
@@ -0,0 +1,141 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { JSDOM } from 'jsdom';
+import { EngageEvent, parseEventDate, rankEvents, scrapeEngageEvents } from '../engageEvents';
+
+// Saved copies of NYU Engage pages, parsed the way the content script parses the live page
+function loadFixture(name: string): Document {
+  return new JSDOM(readFileSync(join(__dirname, 'fixtures', name), 'utf8')).window.document;
+}
+
+const SEEN = new Date(2025, 2, 1, 12); // March 1, 2025
+
+test('scrapeEngageEvents reads an organization events page', () => {
+  const events = scrapeEngageEvents(
+    loadFixture('engage-organization-events.html'),
+    'https://engage.nyu.edu/organization/cookingclub/events',
+    SEEN
+  );
+
+  // The RSVP link repeats an event, and the card without a date is skipped
+  assert.deepEqual(events, [
+    {
+      url: 'https://engage.nyu.edu/event/10480211',
+      name: 'Dumpling Night',
+      date: '2025-03-07',
+      location: 'Kimmel Center, Room 405',
+      organization: 'Cooking Club',
+      seenAt: SEEN.getTime()
+    },
+    {
+      url: 'https://engage.nyu.edu/event/10480577',
+      name: 'Spring Bake Sale',
+      date: '2025-04-02',
+      location: 'Bobst Library Lobby',
+      organization: 'Cooking Club',
+      seenAt: SEEN.getTime()
+    }
+  ]);
+});
+
+test('scrapeEngageEvents reads a single event page', () => {
+  const events = scrapeEngageEvents(loadFixture('engage-event-detail.html'), 'https://engage.nyu.edu/event/10480211', SEEN);
+
+  assert.deepEqual(events, [
+    {
+      url: 'https://engage.nyu.edu/event/10480211',
+      name: 'Dumpling Night',
+      date: '2025-03-07',
+      location: 'Kimmel Center, Room 405',
+      organization: 'Cooking Club',
+      seenAt: SEEN.getTime()
+    }
+  ]);
+});
+
+test('scrapeEngageEvents leaves the organization out on the campus-wide list', () => {
+  const events = scrapeEngageEvents(loadFixture('engage-campus-events.html'), 'https://engage.nyu.edu/events', SEEN);
+
+  assert.deepEqual(events.map((event) => [event.name, event.date, event.location]), [
+    ['Salsa Social', '2025-03-06', 'Paulson Center Atrium'],
+    ['Dumpling Making Workshop', '2025-03-08', 'Jing Fong'],
+    ['New Year Mixer', '2024-12-30', 'Kimmel Center']
+  ]);
+  assert.ok(events.every((event) => event.organization === undefined));
+});
+
+test('parseEventDate passes ISO dates through', () => {
+  assert.equal(parseEventDate('2025-03-07T18:00:00-05:00', SEEN), '2025-03-07');
+});
+
+test('parseEventDate keeps a printed year', () => {
+  assert.equal(parseEventDate('Friday, March 7, 2026 at 6:00 PM EST', SEEN), '2026-03-07');
+  assert.equal(parseEventDate('Sept 12th 2024', SEEN), '2024-09-12');
+});
+
+test('parseEventDate picks the year closest to when the page was seen', () => {
+  assert.equal(parseEventDate('Tuesday, December 30 at 5:00PM EST', new Date(2025, 0, 3)), '2024-12-30');
+  assert.equal(parseEventDate('Friday, January 2 at 5:00PM EST', new Date(2025, 11, 28)), '2026-01-02');
+});
+
+test('parseEventDate rejects text without a date', () => {
+  assert.equal(parseEventDate('Members only - details coming soon', SEEN), null);
+  assert.equal(parseEventDate('March 40', SEEN), null);
+});
+
+test('parseEventDate rejects impossible dates instead of rolling them over', () => {
+  assert.equal(parseEventDate('Monday, February 31 at 6:00PM EST', SEEN), null);
+  assert.equal(parseEventDate('April 31, 2025', SEEN), null);
+  assert.equal(parseEventDate('Feb 29, 2025', SEEN), null);
+  assert.equal(parseEventDate('Feb 29, 2024', SEEN), '2024-02-29');
+  assert.equal(parseEventDate('2025-02-30T18:00:00-05:00', SEEN), null);
+});
+
+function event(overrides: Partial<EngageEvent>): EngageEvent {
+  return { url: 'https://engage.nyu.edu/event/1', name: 'Event', date: '2025-03-07', seenAt: SEEN.getTime(), ...overrides };
+}
+
+const RECEIPT = {
+  date: '2025-03-05',
+  vendor: 'H Mart',
+  text: 'H MART\nDumpling wrappers 3 @ 4.99\nPork 12.50\nTOTAL 27.47',
+  club: 'Cooking Club'
+};
+
+test('rankEvents puts the club event near the purchase date first', () => {
+  const ranked = rankEvents([
+    event({ url: 'https://engage.nyu.edu/event/2', name: 'Spring Bake Sale', date: '2025-04-02', organization: 'Cooking Club' }),
+    event({ url: 'https://engage.nyu.edu/event/1', name: 'Dumpling Night', date: '2025-03-07', organization: 'Cooking Club' })
+  ], RECEIPT);
+
+  assert.equal(ranked[0].url, 'https://engage.nyu.edu/event/1');
+  assert.ok(ranked.every((candidate, i) => i === 0 || candidate.score <= ranked[0].score));
+});
+
+test('rankEvents drops another club\'s events', () => {
+  const ranked = rankEvents([
+    event({ name: 'Dumpling Night', organization: 'Salsa Dance Society' })
+  ], RECEIPT);
+
+  assert.deepEqual(ranked, []);
+});
+
+test('rankEvents needs more than the date for an event without an organization', () => {
+  const ranked = rankEvents([
+    event({ url: 'https://engage.nyu.edu/event/3', name: 'Salsa Social', date: '2025-03-06', location: 'Paulson Center Atrium' }),
+    event({ url: 'https://engage.nyu.edu/event/4', name: 'Dumpling Making Workshop', date: '2025-03-08', location: 'Jing Fong' })
+  ], RECEIPT);
+
+  // The workshop is named on the receipt; the salsa social only shares the week
+  assert.deepEqual(ranked.map((candidate) => candidate.url), ['https://engage.nyu.edu/event/4']);
+});
+
+test('rankEvents keeps events without an organization when the club is unknown', () => {
+  const ranked = rankEvents([
+    event({ name: 'Salsa Social', date: '2025-03-06' })
+  ], { ...RECEIPT, club: undefined });
+
+  assert.equal(ranked.length, 1);
+});
@@ -0,0 +1,72 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ParsedExpenseData } from '../../types';
+import { applyReviewEdits, shouldReviewBeforeFill } from '../reviewFields';
+
+function parsed(overrides: Partial<ParsedExpenseData> = {}): ParsedExpenseData {
+  return {
+    purchaser_name: { value: 'Alex Kim', confidence: 1 },
+    netid: { value: 'ak1234', confidence: 1 },
+    club_name: { value: 'Cooking Club', confidence: 0.9 },
+    payment_method: { value: 'Club Card (no extra funding)', confidence: 0.9 },
+    vendor_name: { value: 'H Mart', confidence: 0.95 },
+    date_of_expense: { value: '2025-03-05', confidence: 0.9 },
+    total_amount: { value: 27.47, confidence: 0.92 },
+    purchase_type: { value: 'Food', confidence: 0.9 },
+    event_link: { value: '', confidence: 0 },
+    description: { value: 'Ingredients for Dumpling Night.', confidence: 0.85 },
+    ...overrides
+  };
+}
+
+test('shouldReviewBeforeFill skips a confident receipt with no event link', () => {
+  assert.equal(shouldReviewBeforeFill(parsed(), 'low_confidence'), false);
+});
+
+test('shouldReviewBeforeFill reviews a low-confidence event link that was filled', () => {
+  const data = parsed({ event_link: { value: 'https://engage.nyu.edu/event/10480211', confidence: 0.6 } });
+  assert.equal(shouldReviewBeforeFill(data, 'low_confidence'), true);
+});
+
+test('shouldReviewBeforeFill reviews a low-confidence receipt field', () => {
+  assert.equal(shouldReviewBeforeFill(parsed({ vendor_name: { value: 'H Mart', confidence: 0.4 } }), 'low_confidence'), true);
+});
+
+test('applyReviewEdits drops the review note of an edited field and keeps the others', () => {
+  const data = parsed({
+    vendor_name: { value: 'H Mrt', confidence: 0.5 },
+    review_notes: { vendor_name: 'The receipt header reads "H MART".', date_of_expense: 'The date is 95 days ago.' }
+  });
+
+  const edited = applyReviewEdits(data, { vendor_name: 'H Mart' });
+
+  assert.deepEqual(edited.vendor_name, { value: 'H Mart', confidence: 1 });
+  assert.deepEqual(edited.review_notes, { date_of_expense: 'The date is 95 days ago.' });
+  // The parsed data itself is left as it was
+  assert.equal(data.review_notes?.vendor_name, 'The receipt header reads "H MART".');
+});
+
+test('applyReviewEdits drops the amount cross-check when the total is edited', () => {
+  const data = parsed({
+    total_amount: { value: 24.97, confidence: 0.5 },
+    amount_check: { consistent: false, expectedTotal: 27.47, reportedTotal: 24.97, difference: 2.5, message: 'Items and tax add up to $27.47.' },
+    review_notes: { total_amount: 'Items and tax add up to $27.47.' }
+  });
+
+  const edited = applyReviewEdits(data, { total_amount: '27.47' });
+
+  assert.deepEqual(edited.total_amount, { value: 27.47, confidence: 1 });
+  assert.equal(edited.amount_check, undefined);
+  assert.deepEqual(edited.review_notes, {});
+});
+
+test('applyReviewEdits keeps a cleared total as null', () => {
+  assert.deepEqual(applyReviewEdits(parsed(), { total_amount: '' }).total_amount, { value: null, confidence: 1 });
+});
+
+test('applyReviewEdits leaves untouched fields and their notes alone', () => {
+  const data = parsed({ amount_check: { consistent: true, expectedTotal: 27.47, reportedTotal: 27.47, difference: 0, message: '' } });
+  const edited = applyReviewEdits(data, { total_amount: '27.47', vendor_name: 'H Mart' });
+  assert.equal(edited.total_amount, data.total_amount);
+  assert.equal(edited.amount_check, data.amount_check);
+});
@@ -0,0 +1,70 @@
+import { AmountBreakdownCheck, AmountField, ParsedExpenseData } from '../types';
+
+// Allow for per-line rounding on receipts
+const AMOUNT_TOLERANCE = 0.02;
+// Confidence ceiling for a total that doesn't match its breakdown - still filled, but flagged for review
+const MISMATCH_CONFIDENCE = 0.6;
+
+// Check that subtotal + tax + tip + shipping - discount adds up to the total. Lowers
+// total_amount confidence and records the discrepancy when it doesn't.
+export function applyAmountCrossCheck(data: ParsedExpenseData): ParsedExpenseData {
+  const reportedTotal = toAmount(data.total_amount.value);
+  if (reportedTotal === null) return data;
+
+  let subtotal = fieldAmount(data.subtotal);
+  let subtotalSource = 'subtotal';
+  if (subtotal === null && data.line_items && data.line_items.length > 0 &&
+      data.line_items.every((item) => item.line_total !== null)) {
+    // No printed subtotal - fall back to the sum of the line items
+    subtotal = data.line_items.reduce((sum, item) => sum + (item.line_total as number), 0);
+    subtotalSource = 'sum of line items';
+  }
+  if (subtotal === null) return data;
+
+  const tax = fieldAmount(data.tax) ?? 0;
+  const tip = fieldAmount(data.tip) ?? 0;
+  const shipping = fieldAmount(data.shipping) ?? 0;
+  const discount = Math.abs(fieldAmount(data.discount) ?? 0);
+  const expectedTotal = round2(subtotal + tax + tip + shipping - discount);
+  const difference = round2(reportedTotal - expectedTotal);
+  const consistent = Math.abs(difference) <= AMOUNT_TOLERANCE;
+
+  const parts = [`${subtotalSource} $${subtotal.toFixed(2)}`];
+  if (tax) parts.push(`tax $${tax.toFixed(2)}`);
+  if (tip) parts.push(`tip $${tip.toFixed(2)}`);
+  if (shipping) parts.push(`shipping $${shipping.toFixed(2)}`);
+  if (discount) parts.push(`discount -$${discount.toFixed(2)}`);
+
+  const check: AmountBreakdownCheck = {
+    consistent,
+    expectedTotal,
+    reportedTotal,
+    difference,
+    message: consistent
+      ? `Total matches breakdown (${parts.join(' + ')}).`
+      : `Total $${reportedTotal.toFixed(2)} does not match breakdown ${parts.join(' + ')} = $${expectedTotal.toFixed(2)} (off by $${Math.abs(difference).toFixed(2)}).`
+  };
+
+  return {
+    ...data,
+    total_amount: consistent
+      ? data.total_amount
+      : { ...data.total_amount, confidence: Math.min(data.total_amount.confidence, MISMATCH_CONFIDENCE) },
+    amount_check: check
+  };
+}
+
+function fieldAmount(field?: AmountField): number | null {
+  if (!field || field.value === null || field.value === undefined) return null;
+  return toAmount(field.value);
+}
+
+function toAmount(value: string | number | null | undefined): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^0-9.-]/g, ''));
+  return isNaN(num) ? null : num;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
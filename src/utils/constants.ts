@@ -0,0 +1,4 @@
+// Values shared by the content script and the side panel
+
+// Below this a field is highlighted on the page for review, and opens the review step
+export const CONFIDENCE_THRESHOLD = 0.8;
@@ -0,0 +1,109 @@
+import { ParsedExpenseData } from '../types';
+
+// Corrections the user made to autofilled fields, kept locally and fed back into later
+// parses as vendor hints and few-shot examples.
+
+const STORAGE_KEY = 'learnedCorrections';
+const MAX_CORRECTIONS = 200;
+// How many corrections to include in one prompt
+const MAX_HINTS = 5;
+
+export type CorrectableField = 'vendor_name' | 'purchase_type' | 'description';
+
+export interface ReceiptFeatures {
+  vendor: string; // Vendor name the model gave
+  items: string[]; // First few line item descriptions
+  total: string;
+}
+
+export interface Correction {
+  id: string;
+  timestamp: number;
+  field: CorrectableField;
+  features: ReceiptFeatures;
+  modelValue: string;
+  correctedValue: string;
+}
+
+const FIELD_LABELS: Record<CorrectableField, string> = {
+  vendor_name: 'vendor_name',
+  purchase_type: 'likely_purchase_type',
+  description: 'description_suggestion'
+};
+
+export function buildReceiptFeatures(data: ParsedExpenseData): ReceiptFeatures {
+  return {
+    vendor: data.vendor_name.value,
+    items: (data.line_items || []).slice(0, 5).map((item) => item.description),
+    total: String(data.total_amount.value ?? '')
+  };
+}
+
+export async function loadCorrections(): Promise<Correction[]> {
+  const storage = await chrome.storage.local.get([STORAGE_KEY]);
+  return storage[STORAGE_KEY] || [];
+}
+
+// A later edit to the same field of the same receipt replaces the earlier one
+export async function saveCorrection(correction: Omit<Correction, 'id' | 'timestamp'>): Promise<void> {
+  const corrections = (await loadCorrections()).filter((existing) =>
+    !(existing.field === correction.field &&
+      existing.features.vendor === correction.features.vendor &&
+      existing.features.total === correction.features.total)
+  );
+  if (correction.correctedValue.trim() === correction.modelValue.trim()) {
+    // Edited back to what the model said - nothing to learn
+    await chrome.storage.local.set({ [STORAGE_KEY]: corrections });
+    return;
+  }
+
+  corrections.push({ ...correction, id: crypto.randomUUID(), timestamp: Date.now() });
+  await chrome.storage.local.set({ [STORAGE_KEY]: corrections.slice(-MAX_CORRECTIONS) });
+}
+
+export async function deleteCorrection(id: string): Promise<Correction[]> {
+  const corrections = (await loadCorrections()).filter((correction) => correction.id !== id);
+  await chrome.storage.local.set({ [STORAGE_KEY]: corrections });
+  return corrections;
+}
+
+export async function clearCorrections(): Promise<void> {
+  await chrome.storage.local.remove(STORAGE_KEY);
+}
+
+// Pick the corrections relevant to this receipt: ones whose vendor or items share words
+// with the receipt text, most overlapping (then most recent) first
+export function selectRelevantCorrections(corrections: Correction[], receiptText: string): Correction[] {
+  const receiptWords = new Set(words(receiptText));
+  return corrections
+    .map((correction) => {
+      const vendorWords = words(`${correction.features.vendor} ${correction.correctedValue}`);
+      const itemWords = words(correction.features.items.join(' '));
+      const vendorOverlap = vendorWords.filter((word) => receiptWords.has(word)).length;
+      const itemOverlap = itemWords.filter((word) => receiptWords.has(word)).length;
+      return { correction, score: vendorOverlap * 3 + itemOverlap };
+    })
+    .filter(({ score }) => score >= 3)
+    .sort((a, b) => b.score - a.score || b.correction.timestamp - a.correction.timestamp)
+    .slice(0, MAX_HINTS)
+    .map(({ correction }) => correction);
+}
+
+// Prompt text for the {{learned_corrections}} placeholder. Empty when nothing is relevant.
+export function formatCorrectionHints(corrections: Correction[]): string {
+  if (corrections.length === 0) return '';
+
+  const lines = corrections.map((correction) => {
+    const receipt = correction.features.vendor
+      ? `a receipt from "${correction.features.vendor}"`
+      : 'a similar receipt';
+    const items = correction.features.items.length > 0 ? ` (items: ${correction.features.items.join(', ')})` : '';
+    return `- For ${receipt}${items}, "${FIELD_LABELS[correction.field]}" was "${correction.modelValue}" but the user corrected it to "${correction.correctedValue}".`;
+  });
+
+  return `The user corrected earlier results for similar receipts. Follow these corrections when the receipt matches:\n${lines.join('\n')}`;
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter((word) => word.length >= 3);
+}
@@ -0,0 +1,188 @@
+// Calendar dates for receipts and the Engage date inputs. Dates are handled as plain
+// year/month/day numbers - never through Date parsing, which reads "2025-03-14" as UTC
+// midnight and shows it as the 13th in US timezones.
+
+export type DateOrder = 'mdy' | 'dmy';
+
+// A date found in receipt text
+export interface ReceiptDate {
+  iso: string; // YYYY-MM-DD
+  printed: string; // As printed on the receipt
+  ambiguous: boolean; // Numeric with day and month both 12 or under, e.g. 03/04/2025
+  index: number;
+}
+
+// Whether the receipt prints dates month-first or day-first, and why we think so
+export interface DateOrderHint {
+  order: DateOrder;
+  reason: string;
+  certain: boolean; // Another date on the same receipt can only be read this way
+}
+
+// The format US Engage forms use when the input gives no hint
+export const DEFAULT_DATE_INPUT_FORMAT = 'MM/DD/YYYY';
+// Receipts older than this are past the reimbursement deadline
+export const REIMBURSEMENT_WINDOW_DAYS = 90;
+
+const MONTH_NAMES = ['january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december'];
+
+const ISO_PATTERN = /\b(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})\b/g;
+const NUMERIC_PATTERN = /\b(\d{1,2})([/.-])(\d{1,2})\2(\d{4}|\d{2})\b/g;
+// "Mar 14, 2025", "March 14 2025", "Mar-14-2025"
+const MONTH_FIRST_PATTERN = /\b([A-Za-z]{3,9})\.?[\s-]+(\d{1,2})(?:st|nd|rd|th)?,?[\s-]+(\d{4}|\d{2})\b/g;
+// "14 Mar 2025", "14-MAR-25", "14th March, 2025"
+const DAY_FIRST_PATTERN = /\b(\d{1,2})(?:st|nd|rd|th)?[\s-]+([A-Za-z]{3,9})\.?,?[\s-]+(\d{4}|\d{2})\b/g;
+
+// Currencies and words of countries that print dates day-first
+const DAY_FIRST_CURRENCIES = ['EUR', 'GBP', 'AUD', 'NZD', 'INR'];
+const DAY_FIRST_LOCALE_PATTERN = /\b(?:VAT\s+(?:no|reg)|ABN|GST\s+reg|\+44|\+61|\+353)\b|\b[A-Z]{1,2}\d[A-Z\d]?\s+\d[A-Z]{2}\b/;
+
+export function isValidDate(year: number, month: number, day: number): boolean {
+  if (month < 1 || month > 12 || day < 1) return false;
+  const leap = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+  const daysInMonth = [31, leap ? 29 : 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31][month - 1];
+  return day <= daysInMonth;
+}
+
+function toISO(year: number, month: number, day: number): string | null {
+  if (year < 100) year += 2000;
+  if (year < 2000 || year > 2100 || !isValidDate(year, month, day)) return null;
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// "Mar", "March" and "Sept" are months; "Marker" is not
+function monthNumber(name: string): number | undefined {
+  const lower = name.toLowerCase();
+  const index = MONTH_NAMES.findIndex((month) => month.startsWith(lower) || (lower === 'sept' && month === 'september'));
+  return lower.length >= 3 && index >= 0 ? index + 1 : undefined;
+}
+
+// Decide the numeric date order from the receipt itself, then from locale and currency hints
+export function detectDateOrder(text: string, currency: string | null = null): DateOrderHint {
+  for (const m of Array.from(text.matchAll(NUMERIC_PATTERN))) {
+    const first = +m[1];
+    const second = +m[3];
+    if (first > 12 && second <= 12) {
+      return { order: 'dmy', reason: `${m[0]} on the receipt is day-first`, certain: true };
+    }
+    if (second > 12 && first <= 12) {
+      return { order: 'mdy', reason: `${m[0]} on the receipt is month-first`, certain: true };
+    }
+  }
+  if (Array.from(text.matchAll(NUMERIC_PATTERN)).some((m) => m[2] === '.')) {
+    return { order: 'dmy', reason: 'the receipt writes dates with dots', certain: false };
+  }
+  if (currency && DAY_FIRST_CURRENCIES.includes(currency)) {
+    return { order: 'dmy', reason: `the receipt is in ${currency}`, certain: false };
+  }
+  if (DAY_FIRST_LOCALE_PATTERN.test(text)) {
+    return { order: 'dmy', reason: 'the receipt looks non-US (VAT number, postcode or phone prefix)', certain: false };
+  }
+  return { order: 'mdy', reason: currency === 'USD' ? 'the receipt is in USD' : 'US receipts print the month first', certain: false };
+}
+
+// Every date in the receipt text, in order of appearance
+export function findReceiptDates(text: string, hint: DateOrderHint = detectDateOrder(text)): ReceiptDate[] {
+  const found: ReceiptDate[] = [];
+  const add = (index: number, printed: string, iso: string | null, ambiguous: boolean = false) => {
+    if (iso) found.push({ iso, printed, ambiguous, index });
+  };
+
+  for (const m of Array.from(text.matchAll(ISO_PATTERN))) {
+    add(m.index!, m[0], toISO(+m[1], +m[2], +m[3]));
+  }
+  for (const m of Array.from(text.matchAll(NUMERIC_PATTERN))) {
+    // Skip the tail of an ISO date already matched ("2025-03-14" also contains "25-03-14")
+    if (found.some((date) => m.index! > date.index && m.index! < date.index + date.printed.length)) continue;
+    const first = +m[1];
+    const second = +m[3];
+    const [month, day] = first > 12 ? [second, first] : second > 12 ? [first, second] : hint.order === 'dmy' ? [second, first] : [first, second];
+    const ambiguous = first <= 12 && second <= 12 && first !== second && !hint.certain;
+    add(m.index!, m[0], toISO(+m[4], month, day), ambiguous);
+  }
+  for (const m of Array.from(text.matchAll(MONTH_FIRST_PATTERN))) {
+    const month = monthNumber(m[1]);
+    if (month) add(m.index!, m[0], toISO(+m[3], month, +m[2]));
+  }
+  for (const m of Array.from(text.matchAll(DAY_FIRST_PATTERN))) {
+    const month = monthNumber(m[2]);
+    if (month) add(m.index!, m[0], toISO(+m[3], month, +m[1]));
+  }
+
+  const seen = new Set<string>();
+  return found
+    .sort((a, b) => a.index - b.index)
+    .filter((date) => !seen.has(date.iso) && seen.add(date.iso));
+}
+
+// A single date value (e.g. the model's answer) as YYYY-MM-DD, or '' if it isn't a date
+export function normalizeDate(value: string, order: DateOrder = 'mdy'): string {
+  const text = (value || '').trim();
+  if (!text) return '';
+  const dates = findReceiptDates(text, { order, reason: '', certain: false });
+  return dates[0]?.iso || '';
+}
+
+// The format a date input expects: a date-type input, a datepicker's configured format, a
+// placeholder like "mm/dd/yyyy", or a format named in the question's label
+export function detectDateInputFormat(input: HTMLInputElement, labelText: string = ''): string {
+  if (input.type === 'date') return 'YYYY-MM-DD';
+  const pickerFormat = input.getAttribute('data-date-format') || input.getAttribute('data-format');
+  // jQuery UI datepickers write a four-digit year as "yy"
+  const jqueryUi = input.classList.contains('hasDatepicker');
+  return (pickerFormat && parseFormatPattern(pickerFormat, jqueryUi))
+    || parseFormatPattern(input.placeholder || '')
+    || parseFormatPattern(input.title || '')
+    || parseFormatPattern(labelText)
+    || DEFAULT_DATE_INPUT_FORMAT;
+}
+
+function parseFormatPattern(text: string, yyIsFullYear: boolean = false): string | null {
+  const match = text.match(/\b(y{2,4}|m{1,2}|d{1,2})([/.\-\s])(y{2,4}|m{1,2}|d{1,2})\2(y{2,4}|m{1,2}|d{1,2})\b/i);
+  if (!match) return null;
+  const parts = [match[1], match[3], match[4]].map((part) => part.toUpperCase());
+  if (parts.map((part) => part[0]).sort().join('') !== 'DMY') return null;
+  return parts.map((part) => (part === 'YY' && yyIsFullYear) || part === 'YYY' ? 'YYYY' : part).join(match[2]);
+}
+
+// Write a YYYY-MM-DD date in an input format such as MM/DD/YYYY or D.M.YY
+export function formatDateForInput(iso: string, format: string = DEFAULT_DATE_INPUT_FORMAT): string {
+  const match = (iso || '').match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return iso;
+  const [, year, month, day] = match;
+  const tokens: Record<string, string> = {
+    YYYY: year,
+    YY: year.slice(2),
+    MM: month,
+    M: String(+month),
+    DD: day,
+    D: String(+day)
+  };
+  return format.replace(/YYYY|YY|MM|M|DD|D/g, (token) => tokens[token]);
+}
+
+// Today's date in the user's timezone
+export function todayISO(now: Date = new Date()): string {
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+}
+
+// A review note for a date in the future or past the reimbursement window
+export function checkDateWindow(iso: string, now: Date = new Date(), windowDays: number = REIMBURSEMENT_WINDOW_DAYS): string | undefined {
+  const days = daysBetween(iso, todayISO(now));
+  if (days === null) return undefined;
+  if (days < 0) {
+    return `The date ${iso} is in the future.`;
+  }
+  if (days > windowDays) {
+    return `The date ${iso} is ${days} days ago - older than the ${windowDays}-day reimbursement window.`;
+  }
+  return undefined;
+}
+
+// Whole days from one YYYY-MM-DD date to another, counted on the calendar
+function daysBetween(from: string, to: string): number | null {
+  const a = from.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const b = to.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!a || !b) return null;
+  return Math.round((Date.UTC(+b[1], +b[2] - 1, +b[3]) - Date.UTC(+a[1], +a[2] - 1, +a[3])) / 86400000);
+}
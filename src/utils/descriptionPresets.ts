@@ -0,0 +1,100 @@
+import { DescriptionContext, DescriptionPreset, ParsedExpenseData } from '../types';
+
+// Styles for the "describe the reason for the purchase" text. The preset is chosen in the
+// profile settings; the event name and attendee count are entered per receipt in the side panel.
+
+export const DEFAULT_DESCRIPTION_PRESET: DescriptionPreset = 'detailed';
+
+export const DESCRIPTION_PRESETS: { [preset in DescriptionPreset]: { label: string; instruction: string } } = {
+  concise: {
+    label: 'Concise',
+    instruction: 'Write 1-2 short sentences stating what was bought and why.'
+  },
+  detailed: {
+    label: 'Detailed',
+    instruction: 'Write a 2-4 sentence description explaining the reason for the purchase and how it benefits the club.'
+  },
+  event_focused: {
+    label: 'Event-focused',
+    instruction: 'Write 2-3 sentences that lead with the event the purchase was for and its purpose, then say what was bought for it.'
+  },
+  itemized: {
+    label: 'Itemized',
+    instruction: 'Write one sentence stating the purpose, followed by the purchased items with their quantities and amounts, separated by semicolons.'
+  }
+};
+
+// Instructions for the description field in the extraction and regenerate prompts
+export function buildDescriptionInstructions(
+  preset: DescriptionPreset = DEFAULT_DESCRIPTION_PRESET,
+  context: DescriptionContext = {},
+  maxLength?: number
+): string {
+  const parts = [(DESCRIPTION_PRESETS[preset] || DESCRIPTION_PRESETS[DEFAULT_DESCRIPTION_PRESET]).instruction];
+  if (context.eventName) {
+    parts.push(`The purchase was for the club event "${context.eventName}" - mention it.`);
+  }
+  if (context.attendees) {
+    parts.push(`About ${context.attendees} people attended - mention the attendance.`);
+  }
+  if (maxLength) {
+    parts.push(`The form accepts at most ${maxLength} characters - keep the description shorter than that.`);
+  }
+  return parts.join(' ');
+}
+
+// Shorten text to the field's limit at a sentence end, or failing that a word boundary
+export function fitToLength(text: string, maxLength?: number): string {
+  if (!maxLength || text.length <= maxLength) return text;
+  const cut = text.slice(0, maxLength);
+  const sentenceEnd = Math.max(cut.lastIndexOf('. '), cut.lastIndexOf('; '), cut.endsWith('.') ? cut.length - 1 : -1);
+  if (sentenceEnd > maxLength / 2) {
+    return cut.slice(0, sentenceEnd + 1).replace(/;$/, '.');
+  }
+  const wordEnd = cut.lastIndexOf(' ');
+  return (wordEnd > 0 ? cut.slice(0, wordEnd) : cut).replace(/[,;:\s]+$/, '');
+}
+
+// Rule-based description in the chosen style, used when no AI provider is configured
+export function buildPresetDescription(
+  data: ParsedExpenseData,
+  preset: DescriptionPreset = DEFAULT_DESCRIPTION_PRESET,
+  context: DescriptionContext = {},
+  maxLength?: number
+): string {
+  const items = data.line_items || [];
+  const vendor = data.vendor_name.value;
+  const from = vendor ? ` from ${vendor}` : '';
+  const itemNames = items.slice(0, 5).map((item) =>
+    item.quantity && item.quantity > 1 ? `${item.quantity} x ${item.description}` : item.description
+  );
+  const what = itemNames.length > 0
+    ? `${itemNames.join(', ')}${items.length > 5 ? `, and ${items.length - 5} other item(s)` : ''}`
+    : `${data.purchase_type.value || 'supplies'}`;
+  const event = context.eventName ? `the club's "${context.eventName}" event` : 'club use';
+  const attendance = context.attendees ? ` attended by about ${context.attendees} people` : '';
+
+  let text: string;
+  switch (preset) {
+    case 'concise':
+      text = `Purchase of ${what}${from} for ${event}.`;
+      break;
+    case 'event_focused':
+      text = context.eventName
+        ? `For ${event}${attendance}, the club purchased ${what}${from}.`
+        : `The club purchased ${what}${from} for an upcoming club event${attendance}.`;
+      break;
+    case 'itemized': {
+      const lines = items.map((item) => {
+        const quantity = item.quantity && item.quantity > 1 ? `${item.quantity} x ` : '';
+        const amount = item.line_total !== null ? ` ($${item.line_total.toFixed(2)})` : '';
+        return `${quantity}${item.description}${amount}`;
+      });
+      text = `Purchase${from} for ${event}${attendance}${lines.length > 0 ? `: ${lines.join('; ')}` : ` of ${what}`}.`;
+      break;
+    }
+    default:
+      text = `Purchase of ${what}${from} for ${event}${attendance}. These items were bought to support the club's activities for its members.`;
+  }
+  return fitToLength(text, maxLength);
+}
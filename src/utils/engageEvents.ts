@@ -0,0 +1,253 @@
+import { EventCandidate, ParsedExpenseData } from '../types';
+import { scoreMatch } from './fuzzyMatch';
+
+// Club events read from NYU Engage pages the user visits (an organization's Events tab, the
+// events list, or a single event), cached locally and ranked against a receipt to fill
+// "Include the link to the applicable NYU Engage event".
+
+const STORAGE_KEY = 'engageEvents';
+const MAX_EVENTS = 300;
+const MAX_AGE_MS = 400 * 24 * 60 * 60 * 1000; // Past a year, an event won't match a new receipt
+const MIN_CANDIDATE_SCORE = 0.3;
+const MAX_CANDIDATES = 3;
+// Below this the event's organization isn't the user's club
+const MIN_CLUB_MATCH_SCORE = 0.5;
+// Below this the vendor isn't the event's venue
+const MIN_VENUE_MATCH_SCORE = 0.5;
+
+export interface EngageEvent {
+  url: string;
+  name: string;
+  date: string; // YYYY-MM-DD of the start
+  location?: string;
+  organization?: string;
+  seenAt: number;
+}
+
+export interface EventMatchContext {
+  date: string; // date_of_expense
+  vendor: string;
+  text: string; // Receipt text and the description
+  club?: string;
+}
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+// "Friday, March 7 at 6:00PM EST", "Mar 7, 2025", "Friday, March 7, 2025 at 6:00 PM EST to ..."
+const EVENT_DATE_PATTERN = /\b(jan|feb|mar|apr|may|jun|jul|aug|sep|sept|oct|nov|dec)[a-z]*\.?\s+(\d{1,2})(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?/i;
+const EVENT_PATH_PATTERN = /\/event\/(\d+)/;
+
+// Read the events shown on an Engage page. Works on a Document or any container, so a saved
+// copy of the page parses the same way.
+export function scrapeEngageEvents(root: ParentNode, pageUrl: string, now: Date = new Date()): EngageEvent[] {
+  const url = new URL(pageUrl);
+  const organization = getOrganizationName(root, url);
+  const events = new Map<string, EngageEvent>();
+
+  // A single event's page
+  const detailMatch = url.pathname.match(EVENT_PATH_PATTERN);
+  if (detailMatch) {
+    const event = scrapeEventDetail(root, `${url.origin}/event/${detailMatch[1]}`, now);
+    if (event) events.set(event.url, event);
+  }
+
+  // Event cards link to /event/<id>
+  for (const link of Array.from(root.querySelectorAll<HTMLAnchorElement>('a[href*="/event/"]'))) {
+    const match = (link.getAttribute('href') || '').match(EVENT_PATH_PATTERN);
+    if (!match) continue;
+    const eventUrl = `${url.origin}/event/${match[1]}`;
+    if (events.has(eventUrl)) continue;
+    const event = scrapeEventCard(link, eventUrl, organization, now);
+    if (event) events.set(eventUrl, event);
+  }
+
+  return Array.from(events.values());
+}
+
+function scrapeEventCard(card: HTMLElement, url: string, organization: string | undefined, now: Date): EngageEvent | null {
+  const lines = getTextLines(card);
+  const heading = card.querySelector('h1, h2, h3, h4');
+  const name = normalizeSpace(heading?.textContent || '') || lines[0];
+  const dateIndex = lines.findIndex((line) => EVENT_DATE_PATTERN.test(line));
+  const date = dateIndex === -1 ? null : parseEventDate(lines[dateIndex], now);
+  if (!name || !date) return null;
+
+  // The location is the line after the date on Engage's cards
+  const location = lines.slice(dateIndex + 1).find((line) => line !== name && !EVENT_DATE_PATTERN.test(line));
+  return { url, name, date, location, organization, seenAt: now.getTime() };
+}
+
+function scrapeEventDetail(root: ParentNode, url: string, now: Date): EngageEvent | null {
+  const name = normalizeSpace(root.querySelector('h1')?.textContent || '');
+  const time = root.querySelector('time[datetime]');
+  const lines = getTextLines(root);
+  const date = (time && parseEventDate(time.getAttribute('datetime') || '', now))
+    || parseEventDate(lines.find((line) => EVENT_DATE_PATTERN.test(line)) || '', now);
+  if (!name || !date) return null;
+
+  // Detail pages have "Location" and "Host Organization" headings followed by the value
+  const after = (heading: RegExp) => {
+    const index = lines.findIndex((line) => heading.test(line));
+    return index === -1 ? undefined : lines[index + 1];
+  };
+  return {
+    url,
+    name,
+    date,
+    location: after(/^location$/i),
+    organization: after(/^host(ed by| organization)?$/i),
+    seenAt: now.getTime()
+  };
+}
+
+function getOrganizationName(root: ParentNode, url: URL): string | undefined {
+  const slug = url.pathname.match(/\/organization\/([^/]+)/);
+  if (!slug) return undefined;
+  return normalizeSpace(root.querySelector('h1')?.textContent || '') || decodeURIComponent(slug[1]).replace(/[-_]+/g, ' ');
+}
+
+// Text of the innermost elements, one entry per line of the card
+function getTextLines(root: ParentNode): string[] {
+  return Array.from(root.querySelectorAll<HTMLElement>('*'))
+    .filter((element) => Array.from(element.children).every((child) => child.tagName.toLowerCase() === 'svg'))
+    .filter((element) => !['script', 'style', 'svg'].includes(element.tagName.toLowerCase()))
+    .map((element) => normalizeSpace(element.textContent || ''))
+    .filter((line) => line !== '');
+}
+
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+// Real ISO dates pass through. Listings often leave out the year - use the one closest to when
+// the page was seen.
+export function parseEventDate(text: string, now: Date = new Date()): string | null {
+  const iso = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return isRealDate(+iso[1], +iso[2] - 1, +iso[3]) ? `${iso[1]}-${iso[2]}-${iso[3]}` : null;
+
+  const match = text.match(EVENT_DATE_PATTERN);
+  if (!match) return null;
+  const month = MONTHS.indexOf(match[1].toLowerCase().slice(0, 3));
+  const day = parseInt(match[2], 10);
+  let year = match[3] ? parseInt(match[3], 10) : now.getFullYear();
+  if (!match[3]) {
+    const distance = (y: number) => Math.abs(Date.UTC(y, month, day) - now.getTime());
+    year = [year - 1, year, year + 1].reduce((best, y) => (distance(y) < distance(best) ? y : best));
+  }
+  if (month === -1 || !isRealDate(year, month, day)) return null;
+  return `${year}-${String(month + 1).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+// Date.UTC rolls Feb 31 over into March - a date that doesn't come back unchanged isn't real
+function isRealDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month, day));
+  return date.getUTCMonth() === month && date.getUTCDate() === day;
+}
+
+export async function loadEngageEvents(): Promise<EngageEvent[]> {
+  const storage = await chrome.storage.local.get([STORAGE_KEY]);
+  return storage[STORAGE_KEY] || [];
+}
+
+// Merge newly seen events into the cache; returns how many were new
+export async function saveEngageEvents(events: EngageEvent[]): Promise<number> {
+  const cached = await loadEngageEvents();
+  const byUrl = new Map(cached.map((event) => [event.url, event]));
+  const added = events.filter((event) => !byUrl.has(event.url)).length;
+  for (const event of events) {
+    // Keep fields an earlier page had that this one doesn't show
+    byUrl.set(event.url, { ...byUrl.get(event.url), ...stripUndefined(event) });
+  }
+
+  // Events from an organization's own pages come first, so a long campus-wide list can't
+  // push the club's events out of the cache
+  const now = Date.now();
+  const kept = Array.from(byUrl.values())
+    .filter((event) => now - event.seenAt <= MAX_AGE_MS)
+    .sort((a, b) => Number(Boolean(b.organization)) - Number(Boolean(a.organization)) || b.seenAt - a.seenAt)
+    .slice(0, MAX_EVENTS);
+  await chrome.storage.local.set({ [STORAGE_KEY]: kept });
+  return added;
+}
+
+export async function clearEngageEvents(): Promise<void> {
+  await chrome.storage.local.remove(STORAGE_KEY);
+}
+
+function stripUndefined(event: EngageEvent): EngageEvent {
+  return Object.fromEntries(Object.entries(event).filter(([, value]) => value !== undefined)) as EngageEvent;
+}
+
+// Rank events by how close they are to the purchase date, whether the venue matches the
+// vendor, and how many words of the event name appear on the receipt
+export function rankEvents(events: EngageEvent[], context: EventMatchContext): EventCandidate[] {
+  const receiptWords = new Set(significantWords(`${context.vendor} ${context.text}`));
+
+  return events
+    .filter((event) => !context.club || !event.organization || scoreMatch(context.club, event.organization) >= MIN_CLUB_MATCH_SCORE)
+    .map((event) => {
+      const dateScore = scoreDateCloseness(context.date, event.date);
+      const venueScore = event.location && context.vendor ? scoreMatch(context.vendor, event.location) : 0;
+      const nameWords = significantWords(event.name);
+      const keywordScore = nameWords.length > 0
+        ? nameWords.filter((word) => receiptWords.has(word)).length / nameWords.length
+        : 0;
+      // A campus-wide listing doesn't say whose event it is - the date alone could be any
+      // club's, so it needs the receipt to mention the event or its venue
+      const unattributed = Boolean(context.club) && !event.organization;
+      const hasEvidence = keywordScore > 0 || venueScore >= MIN_VENUE_MATCH_SCORE;
+      const score = unattributed && !hasEvidence ? 0 : 0.6 * dateScore + 0.15 * venueScore + 0.25 * keywordScore;
+      return {
+        url: event.url,
+        name: event.name,
+        date: event.date,
+        location: event.location,
+        score: Math.round(score * 100) / 100
+      };
+    })
+    .filter((candidate) => candidate.score >= MIN_CANDIDATE_SCORE)
+    .sort((a, b) => b.score - a.score);
+}
+
+// Purchases are usually made in the two weeks before an event, occasionally just after
+function scoreDateCloseness(expenseDate: string, eventDate: string): number {
+  const expense = Date.parse(expenseDate);
+  const event = Date.parse(eventDate);
+  if (isNaN(expense) || isNaN(event)) return 0;
+  const daysUntilEvent = Math.round((event - expense) / (24 * 60 * 60 * 1000));
+  if (daysUntilEvent >= 0) return Math.max(0, 1 - daysUntilEvent / 21);
+  return Math.max(0, 1 + daysUntilEvent / 4);
+}
+
+const COMMON_WORDS = new Set(['the', 'and', 'for', 'with', 'from', 'your', 'our', 'club', 'event', 'meeting', 'night', 'general', 'nyu']);
+
+function significantWords(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter((word) => word.length >= 3 && !COMMON_WORDS.has(word));
+}
+
+// Fill event_link from the cached events, keeping the runner-ups for the side panel
+export function applyEventMatches(data: ParsedExpenseData, events: EngageEvent[], receiptText: string): ParsedExpenseData {
+  const ranked = rankEvents(events, {
+    date: data.date_of_expense.value,
+    vendor: data.vendor_name.value,
+    text: `${receiptText} ${data.description.value}`,
+    club: data.club_name.value
+  });
+  if (ranked.length === 0) return data;
+
+  const [best, ...others] = ranked;
+  // The model's own link wins only if it's more confident than the best match
+  if (data.event_link.value && data.event_link.confidence >= best.score) {
+    return { ...data, event_candidates: ranked.filter((candidate) => candidate.url !== data.event_link.value).slice(0, MAX_CANDIDATES) };
+  }
+
+  // Two events that score alike (e.g. same week) are a guess
+  const ambiguous = others.length > 0 && best.score - others[0].score <= 0.05;
+  return {
+    ...data,
+    event_link: { value: best.url, confidence: ambiguous ? Math.min(best.score, 0.6) : best.score },
+    event_candidates: others.slice(0, MAX_CANDIDATES)
+  };
+}
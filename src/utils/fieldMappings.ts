@@ -0,0 +1,326 @@
+// Which Engage form field each parsed value goes into. The mappings are plain JSON so a change
+// in the form's wording can be fixed in Options (or by importing a file) without a release.
+
+export const FIELD_MAPPING_CONFIG_VERSION = 2; // 1 had a single mappings list for the expense form
+
+export type WidgetKind = 'text' | 'dropdown' | 'radio';
+// date: YYYY-MM-DD to the form's MM/DD/YYYY; amount: number without currency symbols
+export type FieldTransform = 'none' | 'date' | 'amount';
+// confidence: fill confident values, flag uncertain ones and leave unknown ones for the user
+// always: fill whenever there is a value, flagging low confidence (used for the description)
+// skip: leave the field alone
+export type FillPolicy = 'confidence' | 'always' | 'skip';
+
+export interface FieldMapping {
+  fieldName: string; // Shown in the fill summary
+  labelPattern: string; // Regular expression source matched case-insensitively against the field label
+  widget: WidgetKind;
+  source: string; // ParsedExpenseData key
+  transform?: FieldTransform;
+  fillPolicy?: FillPolicy;
+}
+
+// One Engage form: how to recognize it and how to fill it
+export interface FormProfile {
+  id: string;
+  name: string; // Shown in the side panel
+  titlePattern?: string; // Regular expression matched case-insensitively against the form's heading - breaks ties
+  mappings: FieldMapping[];
+}
+
+export interface FieldMappingConfig {
+  version: number;
+  forms: FormProfile[];
+}
+
+export interface DetectedForm {
+  form: FormProfile;
+  score: number;
+}
+
+// Below this the page isn't considered any known form
+const MIN_FORM_SCORE = 0.5;
+
+export const WIDGET_KINDS: WidgetKind[] = ['text', 'dropdown', 'radio'];
+export const FIELD_TRANSFORMS: FieldTransform[] = ['none', 'date', 'amount'];
+export const FILL_POLICIES: FillPolicy[] = ['confidence', 'always', 'skip'];
+// Parsed fields a mapping can read from
+export const SOURCE_KEYS = [
+  'purchaser_name',
+  'netid',
+  'club_name',
+  'payment_method',
+  'vendor_name',
+  'date_of_expense',
+  'total_amount',
+  'purchase_type',
+  'event_link',
+  'description'
+];
+
+const EXPENSE_MAPPINGS: FieldMapping[] = [
+  { fieldName: 'Purchaser Name', labelPattern: 'Purchaser Name', widget: 'text', source: 'purchaser_name' },
+  { fieldName: 'NetID', labelPattern: "Purchaser's NetID", widget: 'text', source: 'netid' },
+  { fieldName: 'Club/Organization', labelPattern: 'Club/Organization', widget: 'dropdown', source: 'club_name' },
+  { fieldName: 'Payment Method', labelPattern: 'Payment Method', widget: 'radio', source: 'payment_method' },
+  { fieldName: 'Vendor Name', labelPattern: 'Vendor Name', widget: 'text', source: 'vendor_name' },
+  { fieldName: 'Date of Expense', labelPattern: 'Date of Expense', widget: 'text', source: 'date_of_expense', transform: 'date' },
+  { fieldName: 'Expense Amount', labelPattern: 'Expense Amount', widget: 'text', source: 'total_amount', transform: 'amount' },
+  { fieldName: 'Purchase Type', labelPattern: 'Purchase Type', widget: 'radio', source: 'purchase_type' },
+  { fieldName: 'Event Link', labelPattern: 'Include the link.*NYU Engage event', widget: 'text', source: 'event_link' },
+  {
+    fieldName: 'Description',
+    labelPattern: 'In a few sentences.*describe the reason for the purchase',
+    widget: 'text',
+    source: 'description',
+    fillPolicy: 'always'
+  }
+];
+
+// The other forms' defaults follow their question wording; adjust them in Options if it changes
+export const DEFAULT_FIELD_MAPPING_CONFIG: FieldMappingConfig = {
+  version: FIELD_MAPPING_CONFIG_VERSION,
+  forms: [
+    {
+      id: 'expense_reimbursement',
+      name: 'Expense Reimbursement',
+      titlePattern: '^(?!.*travel).*(expense|reimbursement)',
+      mappings: EXPENSE_MAPPINGS
+    },
+    {
+      id: 'purchase_request',
+      name: 'Purchase Request',
+      titlePattern: 'purchase request|pre-?approval|purchase order',
+      mappings: [
+        { fieldName: 'Requester Name', labelPattern: '(Requester|Purchaser) Name', widget: 'text', source: 'purchaser_name' },
+        { fieldName: 'NetID', labelPattern: 'NetID', widget: 'text', source: 'netid' },
+        { fieldName: 'Club/Organization', labelPattern: 'Club/Organization', widget: 'dropdown', source: 'club_name' },
+        { fieldName: 'Vendor Name', labelPattern: 'Vendor( Name)?', widget: 'text', source: 'vendor_name' },
+        { fieldName: 'Estimated Amount', labelPattern: '(Estimated|Requested) (Amount|Cost)', widget: 'text', source: 'total_amount', transform: 'amount' },
+        { fieldName: 'Purchase Type', labelPattern: 'Purchase Type', widget: 'radio', source: 'purchase_type' },
+        { fieldName: 'Event Link', labelPattern: 'link.*NYU Engage event', widget: 'text', source: 'event_link' },
+        { fieldName: 'Justification', labelPattern: '(justification|reason for the (purchase|request))', widget: 'text', source: 'description', fillPolicy: 'always' }
+      ]
+    },
+    {
+      id: 'vendor_payment',
+      name: 'Vendor Payment (Invoice)',
+      titlePattern: 'vendor payment|invoice|direct pay',
+      mappings: [
+        { fieldName: 'Submitter Name', labelPattern: '(Submitter|Requester|Your) Name', widget: 'text', source: 'purchaser_name' },
+        { fieldName: 'NetID', labelPattern: 'NetID', widget: 'text', source: 'netid' },
+        { fieldName: 'Club/Organization', labelPattern: 'Club/Organization', widget: 'dropdown', source: 'club_name' },
+        { fieldName: 'Vendor Name', labelPattern: '(Vendor|Payee)( Name)?', widget: 'text', source: 'vendor_name' },
+        { fieldName: 'Invoice Date', labelPattern: 'Invoice Date', widget: 'text', source: 'date_of_expense', transform: 'date' },
+        { fieldName: 'Invoice Amount', labelPattern: '(Invoice|Payment) Amount', widget: 'text', source: 'total_amount', transform: 'amount' },
+        { fieldName: 'Event Link', labelPattern: 'link.*NYU Engage event', widget: 'text', source: 'event_link' },
+        { fieldName: 'Description', labelPattern: 'describe (the|what)', widget: 'text', source: 'description', fillPolicy: 'always' }
+      ]
+    },
+    {
+      id: 'travel_reimbursement',
+      name: 'Travel Reimbursement',
+      titlePattern: 'travel',
+      mappings: [
+        { fieldName: 'Traveler Name', labelPattern: '(Traveler|Purchaser) Name', widget: 'text', source: 'purchaser_name' },
+        { fieldName: 'NetID', labelPattern: 'NetID', widget: 'text', source: 'netid' },
+        { fieldName: 'Club/Organization', labelPattern: 'Club/Organization', widget: 'dropdown', source: 'club_name' },
+        { fieldName: 'Payment Method', labelPattern: 'Payment Method', widget: 'radio', source: 'payment_method' },
+        { fieldName: 'Travel Date', labelPattern: '(Travel|Departure|Trip) Date', widget: 'text', source: 'date_of_expense', transform: 'date' },
+        { fieldName: 'Travel Provider', labelPattern: '(Airline|Carrier|Travel Provider|Vendor)', widget: 'text', source: 'vendor_name' },
+        { fieldName: 'Amount', labelPattern: '(Total|Travel|Reimbursement) Amount', widget: 'text', source: 'total_amount', transform: 'amount' },
+        { fieldName: 'Event Link', labelPattern: 'link.*NYU Engage event', widget: 'text', source: 'event_link' },
+        { fieldName: 'Purpose of Travel', labelPattern: 'purpose of (the )?(travel|trip)', widget: 'text', source: 'description', fillPolicy: 'always' }
+      ]
+    }
+  ]
+};
+
+// Stored in chrome.storage.local, like the prompt template
+const STORAGE_KEY = 'fieldMappingConfig';
+
+// The saved config, or the defaults when nothing is saved or the saved config is invalid
+export async function loadFieldMappingConfig(): Promise<{ config: FieldMappingConfig; errors: string[] }> {
+  const storage = await chrome.storage.local.get([STORAGE_KEY]);
+  const saved = storage[STORAGE_KEY];
+  if (!saved) {
+    return { config: DEFAULT_FIELD_MAPPING_CONFIG, errors: [] };
+  }
+  const config = migrateFieldMappingConfig(saved);
+  const errors = validateFieldMappingConfig(config);
+  if (errors.length > 0) {
+    console.warn('Saved field mappings are invalid, using the defaults:', errors);
+    return { config: DEFAULT_FIELD_MAPPING_CONFIG, errors };
+  }
+  return { config, errors: [] };
+}
+
+export async function saveFieldMappingConfig(config: FieldMappingConfig): Promise<void> {
+  const errors = validateFieldMappingConfig(config);
+  if (errors.length > 0) {
+    throw new Error(errors.join('\n'));
+  }
+  await chrome.storage.local.set({ [STORAGE_KEY]: config });
+}
+
+export async function resetFieldMappingConfig(): Promise<FieldMappingConfig> {
+  await chrome.storage.local.remove(STORAGE_KEY);
+  return DEFAULT_FIELD_MAPPING_CONFIG;
+}
+
+// Parse JSON from the Options editor or an imported file
+export function parseFieldMappingConfig(json: string): { config?: FieldMappingConfig; errors: string[] } {
+  let raw: any;
+  try {
+    raw = JSON.parse(json);
+  } catch (error: any) {
+    return { errors: [`Not valid JSON: ${error.message}`] };
+  }
+  const config = migrateFieldMappingConfig(raw);
+  const errors = validateFieldMappingConfig(config);
+  return errors.length > 0 ? { errors } : { config, errors };
+}
+
+// Version 1 configs only had the expense form's mappings - keep them and add the other forms
+function migrateFieldMappingConfig(raw: any): any {
+  if (!raw || raw.version !== 1 || !Array.isArray(raw.mappings)) return raw;
+  return {
+    version: FIELD_MAPPING_CONFIG_VERSION,
+    forms: DEFAULT_FIELD_MAPPING_CONFIG.forms.map((form) =>
+      form.id === 'expense_reimbursement' ? { ...form, mappings: raw.mappings } : form
+    )
+  };
+}
+
+// Returns every problem found, each naming the mapping it is in
+export function validateFieldMappingConfig(raw: any): string[] {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    return ['The config must be an object with "version" and "forms"'];
+  }
+  const errors: string[] = [];
+  if (raw.version !== FIELD_MAPPING_CONFIG_VERSION) {
+    errors.push(`Unsupported config version ${JSON.stringify(raw.version)} (expected ${FIELD_MAPPING_CONFIG_VERSION})`);
+  }
+  if (!Array.isArray(raw.forms) || raw.forms.length === 0) {
+    errors.push('"forms" must be a non-empty array');
+    return errors;
+  }
+
+  const ids = new Set<string>();
+  raw.forms.forEach((form: any, index: number) => {
+    const where = `Form ${index + 1}${form && typeof form.name === 'string' ? ` (${form.name})` : ''}`;
+    if (!form || typeof form !== 'object') {
+      errors.push(`${where}: must be an object`);
+      return;
+    }
+    if (typeof form.id !== 'string' || !form.id.trim()) {
+      errors.push(`${where}: "id" is required`);
+    } else if (ids.has(form.id)) {
+      errors.push(`${where}: duplicate id "${form.id}"`);
+    } else {
+      ids.add(form.id);
+    }
+    if (typeof form.name !== 'string' || !form.name.trim()) {
+      errors.push(`${where}: "name" is required`);
+    }
+    if (form.titlePattern !== undefined) {
+      const patternError = checkPattern(form.titlePattern);
+      if (patternError) errors.push(`${where}: titlePattern ${patternError}`);
+    }
+    if (!Array.isArray(form.mappings) || form.mappings.length === 0) {
+      errors.push(`${where}: "mappings" must be a non-empty array`);
+      return;
+    }
+    errors.push(...validateMappings(form.mappings).map((error) => `${where}, ${error}`));
+  });
+  return errors;
+}
+
+function validateMappings(mappings: any[]): string[] {
+  const errors: string[] = [];
+  const names = new Set<string>();
+  mappings.forEach((mapping: any, index: number) => {
+    const where = `mapping ${index + 1}${mapping && typeof mapping.fieldName === 'string' ? ` (${mapping.fieldName})` : ''}`;
+    if (!mapping || typeof mapping !== 'object') {
+      errors.push(`${where}: must be an object`);
+      return;
+    }
+    if (typeof mapping.fieldName !== 'string' || !mapping.fieldName.trim()) {
+      errors.push(`${where}: "fieldName" is required`);
+    } else if (names.has(mapping.fieldName)) {
+      errors.push(`${where}: duplicate fieldName`);
+    } else {
+      names.add(mapping.fieldName);
+    }
+
+    const patternError = checkPattern(mapping.labelPattern);
+    if (patternError) {
+      errors.push(`${where}: labelPattern ${patternError}`);
+    }
+
+    if (!WIDGET_KINDS.includes(mapping.widget)) {
+      errors.push(`${where}: widget must be one of ${WIDGET_KINDS.join(', ')}`);
+    }
+    if (!SOURCE_KEYS.includes(mapping.source)) {
+      errors.push(`${where}: source must be one of ${SOURCE_KEYS.join(', ')}`);
+    }
+    if (mapping.transform !== undefined && !FIELD_TRANSFORMS.includes(mapping.transform)) {
+      errors.push(`${where}: transform must be one of ${FIELD_TRANSFORMS.join(', ')}`);
+    }
+    if (mapping.fillPolicy !== undefined && !FILL_POLICIES.includes(mapping.fillPolicy)) {
+      errors.push(`${where}: fillPolicy must be one of ${FILL_POLICIES.join(', ')}`);
+    }
+  });
+  return errors;
+}
+
+// Why a pattern is unusable, or null
+function checkPattern(pattern: any): string | null {
+  if (typeof pattern !== 'string' || !pattern.trim()) {
+    return 'is required';
+  }
+  try {
+    if (new RegExp(pattern, 'i').test('')) {
+      return `"${pattern}" matches empty text, so it would match everything`;
+    }
+  } catch (error: any) {
+    return `"${pattern}" is not a valid regular expression (${error.message})`;
+  }
+  return null;
+}
+
+// Identify the open form from its question labels. Forms share some questions (name, NetID,
+// club), so the score counts both how many of the form's questions are on the page and how
+// many of the page's questions the form accounts for. The form's heading only breaks ties -
+// it can name the organization rather than the form.
+export function detectFormType(config: FieldMappingConfig, title: string, labels: string[]): DetectedForm | null {
+  let best: DetectedForm | null = null;
+  let bestTitleMatch = false;
+  for (const form of config.forms) {
+    const titleMatch = form.titlePattern ? new RegExp(form.titlePattern, 'i').test(title) : false;
+    const patterns = form.mappings.map((mapping) => new RegExp(mapping.labelPattern, 'i'));
+
+    let score: number;
+    if (labels.length === 0) {
+      // A page without questions (e.g. the attachment step) can only be told apart by title
+      score = titleMatch ? 0.6 : 0;
+    } else {
+      const formCoverage = patterns.filter((pattern) => labels.some((label) => pattern.test(label))).length / patterns.length;
+      const pageCoverage = labels.filter((label) => patterns.some((pattern) => pattern.test(label))).length / labels.length;
+      score = 0.5 * formCoverage + 0.5 * pageCoverage;
+    }
+    score = Math.round(score * 100) / 100;
+    if (score < MIN_FORM_SCORE || (best && (score < best.score || (score === best.score && (bestTitleMatch || !titleMatch))))) {
+      continue;
+    }
+    best = { form, score };
+    bestTitleMatch = titleMatch;
+  }
+  return best;
+}
+
+// Label pattern of the (first) field filled from a source key, from the given mappings
+export function getLabelPattern(mappings: FieldMapping[], source: string): RegExp | null {
+  const mapping = mappings.find((candidate) => candidate.source === source && candidate.fillPolicy !== 'skip');
+  return mapping ? new RegExp(mapping.labelPattern, 'i') : null;
+}
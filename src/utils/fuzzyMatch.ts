@@ -0,0 +1,109 @@
+// Fuzzy, token-aware matching of a free-text value (e.g. the profile's default club) against
+// the options of a form control. Scores are 0-1 and are used as the fill confidence.
+
+export interface OptionCandidate {
+  value: string;
+  text: string;
+}
+
+export interface RankedOption extends OptionCandidate {
+  score: number;
+}
+
+const FUNCTION_WORDS = new Set(['the', 'of', 'and', 'for', 'at', 'in', 'a', 'an']);
+// Words that carry no meaning in organization names
+const STOP_WORDS = new Set([...Array.from(FUNCTION_WORDS), 'nyu', 'club', 'society', 'association', 'organization', 'org']);
+// Token similarity below this counts as no match, so unrelated words don't add up
+const MIN_TOKEN_SIMILARITY = 0.5;
+
+export function rankOptions(query: string, options: OptionCandidate[]): RankedOption[] {
+  return options
+    .map((option) => ({ ...option, score: scoreMatch(query, option.text) }))
+    .filter((option) => option.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+export function scoreMatch(query: string, candidate: string): number {
+  const a = normalize(query);
+  const b = normalize(candidate);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const queryTokens = meaningfulTokens(a);
+  const candidateTokens = meaningfulTokens(b);
+  if (queryTokens.length === 0 || candidateTokens.length === 0) {
+    return similarity(a, b);
+  }
+
+  // Each query token against its best candidate token, and the reverse, so that
+  // "Finance" alone doesn't fully match "Finance and Investment Club" (the candidate
+  // has words the query doesn't account for)
+  const queryCoverage = average(queryTokens.map((token) => bestTokenScore(token, candidateTokens)));
+  const candidateCoverage = average(candidateTokens.map((token) => bestTokenScore(token, queryTokens)));
+  let score = 0.6 * queryCoverage + 0.4 * candidateCoverage;
+
+  // Acronyms: "ACM" for "Association for Computing Machinery"
+  if (a.replace(/ /g, '') === acronymOf(b) || b.replace(/ /g, '') === acronymOf(a)) {
+    score = Math.max(score, 0.85);
+  }
+
+  // Whole-string similarity catches typos that split or join words
+  score = Math.max(score, similarity(a, b) * 0.95);
+  return Math.round(score * 100) / 100;
+}
+
+function acronymOf(text: string): string {
+  return text.split(' ').filter((word) => word.length > 0 && !FUNCTION_WORDS.has(word)).map((word) => word[0]).join('');
+}
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function meaningfulTokens(text: string): string[] {
+  const tokens = text.split(' ').filter((token) => token.length > 0);
+  const meaningful = tokens.filter((token) => !STOP_WORDS.has(token));
+  return meaningful.length > 0 ? meaningful : tokens;
+}
+
+function bestTokenScore(token: string, others: string[]): number {
+  let best = 0;
+  for (const other of others) {
+    if (token === other) return 1;
+    // Abbreviations: "eng" for "engineering"
+    const prefix = token.length >= 3 && other.startsWith(token) ? 0.85 : 0;
+    const score = similarity(token, other);
+    best = Math.max(best, prefix, score >= MIN_TOKEN_SIMILARITY ? score : 0);
+  }
+  return best;
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+// 1 - normalized Levenshtein distance. Short strings need to be nearly exact.
+function similarity(a: string, b: string): number {
+  const longest = Math.max(a.length, b.length);
+  if (longest === 0) return 1;
+  const score = 1 - levenshtein(a, b) / longest;
+  return longest <= 3 && score < 1 ? 0 : Math.max(0, score);
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
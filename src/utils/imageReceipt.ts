@@ -0,0 +1,187 @@
+import { PDFDocument } from 'pdf-lib';
+import { PDFExtractionResult } from '../types';
+import { recognizeCanvas, terminateOcr } from './ocr';
+import { linesToText } from './layout';
+
+export const IMAGE_RECEIPT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+const IMAGE_RECEIPT_EXTENSIONS = /\.(jpe?g|png|webp|heic|heif)$/i;
+
+// Long side of the prepared image - enough detail for OCR and vision models
+// while keeping the data URL small enough for extension messaging
+const MAX_IMAGE_DIMENSION = 2000;
+// Deskew search range/step in degrees, and the working size used to estimate skew
+const DESKEW_MAX_ANGLE = 8;
+const DESKEW_STEP = 0.5;
+const DESKEW_SAMPLE_DIMENSION = 600;
+const JPEG_QUALITY = 0.85;
+
+export interface PreparedReceiptImage {
+  canvas: HTMLCanvasElement;
+  dataUrl: string; // JPEG data URL of the preprocessed image
+  width: number;
+  height: number;
+  skewAngle: number; // Degrees the image was rotated to straighten it
+}
+
+export function isImageReceipt(file: File): boolean {
+  // HEIC files often arrive with an empty MIME type, so fall back to the extension
+  return IMAGE_RECEIPT_TYPES.includes(file.type) || IMAGE_RECEIPT_EXTENSIONS.test(file.name);
+}
+
+function isHeic(file: File): boolean {
+  return file.type === 'image/heic' || file.type === 'image/heif' || /\.hei[cf]$/i.test(file.name);
+}
+
+export async function prepareReceiptImage(file: File): Promise<PreparedReceiptImage> {
+  try {
+    let blob: Blob = file;
+    if (isHeic(file)) {
+      // Chrome cannot decode HEIC natively - convert iPhone photos to JPEG first
+      const { default: heic2any } = await import('heic2any');
+      const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: 0.92 });
+      blob = Array.isArray(converted) ? converted[0] : converted;
+    }
+
+    // 'from-image' applies the EXIF orientation so phone photos come out upright
+    const bitmap = await createImageBitmap(blob, { imageOrientation: 'from-image' });
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(bitmap.width, bitmap.height));
+    const scaled = createCanvas(Math.round(bitmap.width * scale), Math.round(bitmap.height * scale));
+    scaled.getContext('2d')!.drawImage(bitmap, 0, 0, scaled.width, scaled.height);
+    bitmap.close();
+
+    const skewAngle = estimateSkewAngle(scaled);
+    const canvas = skewAngle === 0 ? scaled : rotateCanvas(scaled, -skewAngle);
+
+    return {
+      canvas,
+      dataUrl: canvas.toDataURL('image/jpeg', JPEG_QUALITY),
+      width: canvas.width,
+      height: canvas.height,
+      skewAngle
+    };
+  } catch (error) {
+    console.error('Error preparing receipt image:', error);
+    throw new Error(`Failed to read receipt image: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+}
+
+export async function extractTextFromImage(image: PreparedReceiptImage): Promise<PDFExtractionResult> {
+  try {
+    const ocr = await recognizeCanvas(image.canvas);
+    return {
+      text: ocr.lines.length > 0 ? linesToText(ocr.lines) : ocr.text,
+      pages: [{
+        pageNumber: 1,
+        source: 'ocr',
+        charCount: ocr.text.replace(/\s+/g, '').length,
+        ocrConfidence: ocr.confidence,
+        lines: ocr.lines
+      }]
+    };
+  } finally {
+    await terminateOcr().catch(() => undefined);
+  }
+}
+
+// NYU Engage expects a PDF attachment, so photos are wrapped into a single-page PDF
+export async function convertImageToPDF(image: PreparedReceiptImage, originalName: string): Promise<File> {
+  const jpegBytes = dataUrlToBytes(image.dataUrl);
+  const pdfDoc = await PDFDocument.create();
+  const embedded = await pdfDoc.embedJpg(jpegBytes);
+  const page = pdfDoc.addPage([image.width, image.height]);
+  page.drawImage(embedded, { x: 0, y: 0, width: image.width, height: image.height });
+  const pdfBytes = await pdfDoc.save();
+
+  const pdfName = originalName.replace(IMAGE_RECEIPT_EXTENSIONS, '') + '.pdf';
+  return new File([pdfBytes as BlobPart], pdfName, { type: 'application/pdf' });
+}
+
+function createCanvas(width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+function rotateCanvas(source: HTMLCanvasElement, degrees: number): HTMLCanvasElement {
+  const radians = (degrees * Math.PI) / 180;
+  const sin = Math.abs(Math.sin(radians));
+  const cos = Math.abs(Math.cos(radians));
+  const width = Math.round(source.width * cos + source.height * sin);
+  const height = Math.round(source.width * sin + source.height * cos);
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext('2d')!;
+
+  // Fill exposed corners with white so they don't read as dark text to OCR
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, width, height);
+  context.translate(width / 2, height / 2);
+  context.rotate(radians);
+  context.drawImage(source, -source.width / 2, -source.height / 2);
+  return canvas;
+}
+
+// Projection-profile deskew: text lines produce sharp peaks in the row histogram of
+// dark pixels when the image is level, so pick the angle that maximizes that sharpness
+function estimateSkewAngle(source: HTMLCanvasElement): number {
+  const scale = Math.min(1, DESKEW_SAMPLE_DIMENSION / Math.max(source.width, source.height));
+  const sample = createCanvas(Math.max(1, Math.round(source.width * scale)), Math.max(1, Math.round(source.height * scale)));
+  const context = sample.getContext('2d')!;
+  context.drawImage(source, 0, 0, sample.width, sample.height);
+  const { data } = context.getImageData(0, 0, sample.width, sample.height);
+
+  let luminanceSum = 0;
+  const luminance = new Float32Array(sample.width * sample.height);
+  for (let i = 0; i < luminance.length; i++) {
+    const value = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+    luminance[i] = value;
+    luminanceSum += value;
+  }
+  const threshold = (luminanceSum / luminance.length) * 0.75;
+
+  const darkX: number[] = [];
+  const darkY: number[] = [];
+  for (let y = 0; y < sample.height; y++) {
+    for (let x = 0; x < sample.width; x++) {
+      if (luminance[y * sample.width + x] < threshold) {
+        darkX.push(x);
+        darkY.push(y);
+      }
+    }
+  }
+  if (darkX.length < 100) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(sample.width, sample.height));
+  let bestAngle = 0;
+  let bestScore = -Infinity;
+  for (let angle = -DESKEW_MAX_ANGLE; angle <= DESKEW_MAX_ANGLE; angle += DESKEW_STEP) {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const rows = new Float32Array(diagonal * 2);
+    for (let i = 0; i < darkX.length; i++) {
+      const row = Math.round(darkY[i] * cos - darkX[i] * sin) + diagonal;
+      rows[row]++;
+    }
+    let score = 0;
+    for (let r = 1; r < rows.length; r++) {
+      const diff = rows[r] - rows[r - 1];
+      score += diff * diff;
+    }
+    if (score > bestScore) {
+      bestScore = score;
+      bestAngle = angle;
+    }
+  }
+  return bestAngle;
+}
+
+function dataUrlToBytes(dataUrl: string): Uint8Array {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
@@ -0,0 +1,158 @@
+import { TextCell, TextLine } from '../types';
+
+// A positioned run of text in top-down page coordinates (y grows downward)
+export interface TextFragment {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Fragments whose vertical centers are within this fraction of the text height share a line
+const LINE_TOLERANCE = 0.5;
+// Gaps wider than this many characters start a new cell (column) on the line
+const CELL_GAP_CHARS = 1.5;
+// Cell anchors within this many characters of each other belong to the same column
+const COLUMN_TOLERANCE_CHARS = 2;
+// Spaces used to separate cells in the plain-text rendering
+const MIN_CELL_PADDING = 2;
+const MAX_CELL_PADDING = 8;
+
+const AMOUNT_PATTERN = /^[-(]?[$€£]?\s?\d{1,3}(?:[,\s]?\d{3})*(?:[.,]\d{2})\)?$/;
+
+// Convert pdf.js text content items (PDF user space, y grows upward) into fragments
+export function fragmentsFromTextItems(items: any[]): TextFragment[] {
+  const fragments: TextFragment[] = [];
+  for (const item of items) {
+    if (typeof item.str !== 'string' || item.str.trim() === '' || !item.transform) continue;
+    const [, , c, d, e, f] = item.transform;
+    const height = item.height || Math.hypot(c, d) || 10;
+    fragments.push({
+      text: item.str,
+      x: e,
+      // Flip the baseline so lines sort top-down, and use the vertical center of the glyphs
+      y: -f - height / 2,
+      width: item.width || 0,
+      height
+    });
+  }
+  return fragments;
+}
+
+// Rebuild reading-order lines from positioned fragments, splitting each line into
+// cells at wide gaps and assigning cells to page-wide columns
+export function buildTextLines(fragments: TextFragment[]): TextLine[] {
+  if (fragments.length === 0) return [];
+
+  const sorted = [...fragments].sort((a, b) => a.y - b.y || a.x - b.x);
+  const rows: TextFragment[][] = [];
+  let current: TextFragment[] = [];
+  let currentY = sorted[0].y;
+  let currentHeight = sorted[0].height;
+
+  for (const fragment of sorted) {
+    const tolerance = Math.max(currentHeight, fragment.height) * LINE_TOLERANCE;
+    if (current.length > 0 && Math.abs(fragment.y - currentY) > tolerance) {
+      rows.push(current);
+      current = [];
+    }
+    if (current.length === 0) {
+      currentY = fragment.y;
+      currentHeight = fragment.height;
+    }
+    current.push(fragment);
+  }
+  if (current.length > 0) rows.push(current);
+
+  const lines = rows.map((row) => buildLine(row));
+  assignColumns(lines);
+  return lines;
+}
+
+export function linesToText(lines: TextLine[]): string {
+  return lines.map((line) => line.text).join('\n');
+}
+
+function buildLine(row: TextFragment[]): TextLine {
+  const fragments = [...row].sort((a, b) => a.x - b.x);
+  const cells: TextCell[] = [];
+  const cellCharWidths: number[] = [];
+
+  for (const fragment of fragments) {
+    const charWidth = estimateCharWidth(fragment);
+    const last = cells[cells.length - 1];
+    if (last) {
+      const gap = fragment.x - (last.x + last.width);
+      if (gap <= charWidth * CELL_GAP_CHARS) {
+        // Same cell - add a space if the fragments are visibly separated
+        const needsSpace = gap > charWidth * 0.2 && !/\s$/.test(last.text) && !/^\s/.test(fragment.text);
+        last.text += (needsSpace ? ' ' : '') + fragment.text;
+        last.width = Math.max(last.width, fragment.x + fragment.width - last.x);
+        continue;
+      }
+    }
+    cells.push({ text: fragment.text, x: fragment.x, width: fragment.width });
+    cellCharWidths.push(charWidth);
+  }
+
+  let text = '';
+  cells.forEach((cell, index) => {
+    cell.text = cell.text.replace(/\s+/g, ' ').trim();
+    if (index > 0) {
+      const previous = cells[index - 1];
+      const gap = cell.x - (previous.x + previous.width);
+      const padding = Math.round(gap / (cellCharWidths[index - 1] || 1));
+      text += ' '.repeat(Math.min(MAX_CELL_PADDING, Math.max(MIN_CELL_PADDING, padding)));
+    }
+    text += cell.text;
+  });
+
+  const y = row.reduce((sum, fragment) => sum + fragment.y, 0) / row.length;
+  return { text, y, cells };
+}
+
+// Group cells into columns across the page. Amounts are usually right-aligned, so
+// they are anchored on their right edge; everything else on its left edge.
+function assignColumns(lines: TextLine[]): void {
+  const anchors: { position: number; cell: TextCell; tolerance: number }[] = [];
+  for (const line of lines) {
+    for (const cell of line.cells) {
+      const isAmount = AMOUNT_PATTERN.test(cell.text);
+      const charWidth = cell.width / Math.max(1, cell.text.length) || 5;
+      anchors.push({
+        position: isAmount ? cell.x + cell.width : cell.x,
+        cell,
+        tolerance: charWidth * COLUMN_TOLERANCE_CHARS
+      });
+    }
+  }
+  anchors.sort((a, b) => a.position - b.position);
+
+  const clusters: (typeof anchors)[] = [];
+  for (const anchor of anchors) {
+    const cluster = clusters[clusters.length - 1];
+    if (cluster && anchor.position - cluster[cluster.length - 1].position <= anchor.tolerance) {
+      cluster.push(anchor);
+    } else {
+      clusters.push([anchor]);
+    }
+  }
+
+  // Only anchors shared by several lines form a real column
+  let column = 0;
+  for (const cluster of clusters) {
+    if (cluster.length < 2) continue;
+    cluster.forEach(({ cell }) => { cell.column = column; });
+    column++;
+  }
+}
+
+function estimateCharWidth(fragment: TextFragment): number {
+  const length = fragment.text.length;
+  if (length > 0 && fragment.width > 0) {
+    return fragment.width / length;
+  }
+  // Typical glyph width is roughly half the font height
+  return fragment.height * 0.5;
+}
@@ -0,0 +1,219 @@
+import { ParsedExpenseData, UserProfile } from '../types';
+import { DateOrderHint, ReceiptDate, checkDateWindow, detectDateOrder, findReceiptDates, normalizeDate } from './dates';
+
+// Rule-based receipt extraction. Runs alongside the model to catch disagreements,
+// and on its own (degraded mode) when no API key is configured.
+
+export interface TotalCandidate {
+  amount: number;
+  score: number; // Keyword score of the line it came from - higher is more likely the final total
+  line: string;
+}
+
+export interface LocalParseResult {
+  vendorCandidates: string[];
+  dateCandidates: string[]; // YYYY-MM-DD, in order of appearance
+  dates: ReceiptDate[]; // The same dates with how they were printed
+  dateOrder: DateOrderHint;
+  totalCandidates: TotalCandidate[]; // Best first
+  currency: string | null;
+}
+
+// Score at or above this means the line was explicitly labelled as the total
+const LABELLED_TOTAL_SCORE = 4;
+// Confidence ceiling for a model field that disagrees with the local parser
+const DISAGREEMENT_CONFIDENCE = 0.6;
+// Confidence ceiling for a date whose day and month could be swapped, or outside the reimbursement window
+const DATE_REVIEW_CONFIDENCE = 0.6;
+
+const AMOUNT_PATTERN = /(?:[$€£]\s?)?-?(\d{1,3}(?:,\d{3})+|\d+)\.(\d{2})\b/g;
+
+const TOTAL_KEYWORDS: { pattern: RegExp; score: number }[] = [
+  { pattern: /\bgrand\s+total\b/i, score: 6 },
+  { pattern: /\b(?:amount|balance|total)\s+due\b/i, score: 5 },
+  { pattern: /\btotal\b/i, score: 4 },
+  { pattern: /\b(?:visa|mastercard|amex|discover|charged|card\s+payment)\b/i, score: 2 },
+  { pattern: /\bamount\b/i, score: 1 },
+  { pattern: /\bsub\s*-?\s*total\b/i, score: -5 },
+  { pattern: /\b(?:tax|vat|gst)\b/i, score: -3 },
+  { pattern: /\b(?:tip|gratuity)\b/i, score: -3 },
+  { pattern: /\b(?:change|cash\s+tendered|tendered)\b/i, score: -6 },
+  { pattern: /\b(?:discount|savings|you\s+saved)\b/i, score: -4 }
+];
+
+const PURCHASE_TYPE_KEYWORDS: Record<string, RegExp> = {
+  food: /\b(?:restaurant|cafe|café|coffee|pizza|grill|kitchen|bakery|deli|catering|food|burger|sushi|taco|bagel|grubhub|doordash|uber\s*eats|seamless|beverage|snacks?)\b/i,
+  apparel: /\b(?:apparel|t-?shirts?|tees?|hoodies?|sweatshirts?|jerseys?|custom\s*ink|merch(?:andise)?|clothing)\b/i,
+  subscription: /\b(?:subscription|monthly\s+plan|annual\s+plan|renewal|billing\s+period|recurring)\b/i
+};
+
+export function preParseReceipt(text: string): LocalParseResult {
+  const lines = text.split('\n').map((line) => line.trim()).filter((line) => line !== '');
+  const currency = detectCurrency(text);
+  const dateOrder = detectDateOrder(text, currency);
+  const dates = findReceiptDates(text, dateOrder);
+
+  return {
+    vendorCandidates: findVendorCandidates(lines),
+    dateCandidates: dates.map((date) => date.iso),
+    dates,
+    dateOrder,
+    totalCandidates: findTotalCandidates(lines),
+    currency
+  };
+}
+
+// Degraded mode: build a full result from the rule-based parse alone
+export function buildLocalExpenseData(pdfText: string, local: LocalParseResult, userProfile: UserProfile): ParsedExpenseData {
+  const total = local.totalCandidates[0];
+  const vendor = local.vendorCandidates[0] || '';
+  const date = local.dateCandidates[0] || '';
+  const purchaseType = Object.keys(PURCHASE_TYPE_KEYWORDS).find((type) => PURCHASE_TYPE_KEYWORDS[type].test(pdfText));
+
+  return checkExpenseDate({
+    purchaser_name: { value: userProfile.purchaser_name || '', confidence: 1.0 },
+    netid: { value: userProfile.netid || '', confidence: 1.0 },
+    club_name: { value: userProfile.default_club || '', confidence: 0.9 },
+    payment_method: { value: userProfile.default_payment_method || 'out_of_pocket', confidence: 0.9 },
+    vendor_name: { value: vendor, confidence: vendor ? 0.5 : 0 },
+    date_of_expense: { value: date, confidence: date ? 0.7 : 0 },
+    total_amount: {
+      value: total ? total.amount : null,
+      confidence: total ? (total.score >= LABELLED_TOTAL_SCORE ? 0.7 : 0.4) : 0
+    },
+    purchase_type: { value: purchaseType || 'other', confidence: purchaseType ? 0.6 : 0.3 },
+    event_link: { value: '', confidence: 0 },
+    description: {
+      value: vendor ? `Purchase from ${vendor}${date ? ` on ${date}` : ''} for club use.` : '',
+      confidence: 0.3
+    },
+    parser: 'local'
+  }, local);
+}
+
+// Compare the model's answer with the rule-based parse. Fields where the two clearly
+// disagree get their confidence capped and a review note explaining why.
+export function reconcileWithLocalParse(data: ParsedExpenseData, local: LocalParseResult, now: Date = new Date()): ParsedExpenseData {
+  const result: ParsedExpenseData = { ...data, review_notes: { ...data.review_notes } };
+
+  // The model is asked for YYYY-MM-DD but may echo the receipt's format
+  const modelDate = normalizeDate(data.date_of_expense.value, local.dateOrder.order);
+  if (modelDate !== data.date_of_expense.value) {
+    result.date_of_expense = { ...data.date_of_expense, value: modelDate };
+  }
+
+  const labelledTotals = local.totalCandidates.filter((candidate) => candidate.score >= LABELLED_TOTAL_SCORE);
+  const modelTotal = parseFloat(String(data.total_amount.value).replace(/[^0-9.-]/g, ''));
+  if (labelledTotals.length > 0 && !isNaN(modelTotal) &&
+      !labelledTotals.some((candidate) => Math.abs(candidate.amount - modelTotal) < 0.01)) {
+    result.total_amount = capConfidence(data.total_amount);
+    result.review_notes!.total_amount =
+      `AI total $${modelTotal.toFixed(2)} differs from the receipt's total line ($${labelledTotals[0].amount.toFixed(2)}).`;
+  }
+
+  if (modelDate && local.dateCandidates.length > 0 && !local.dateCandidates.includes(modelDate)) {
+    result.date_of_expense = capConfidence(result.date_of_expense);
+    result.review_notes!.date_of_expense =
+      `AI date ${modelDate} was not found on the receipt (found ${local.dateCandidates.slice(0, 2).join(', ')}).`;
+  }
+
+  const modelVendor = data.vendor_name.value;
+  if (modelVendor && local.vendorCandidates.length > 0 &&
+      !local.vendorCandidates.some((candidate) => sharesWord(candidate, modelVendor))) {
+    result.vendor_name = capConfidence(data.vendor_name);
+    result.review_notes!.vendor_name =
+      `AI vendor "${modelVendor}" doesn't match the receipt header ("${local.vendorCandidates[0]}").`;
+  }
+
+  return checkExpenseDate(result, local, now);
+}
+
+// Flag a date that was printed ambiguously (03/04/2025) and resolved from a locale hint, or that
+// is in the future or past the reimbursement window
+function checkExpenseDate(data: ParsedExpenseData, local: LocalParseResult, now: Date = new Date()): ParsedExpenseData {
+  const date = data.date_of_expense.value;
+  if (!date) return data;
+  const notes: string[] = [];
+
+  const printed = local.dates.find((candidate) => candidate.iso === date);
+  if (printed?.ambiguous) {
+    notes.push(`${printed.printed} could be day-first or month-first; read as ${date} because ${local.dateOrder.reason}.`);
+  }
+  const windowNote = checkDateWindow(date, now);
+  if (windowNote) {
+    notes.push(windowNote);
+  }
+  if (notes.length === 0) return data;
+
+  const existing = data.review_notes?.date_of_expense;
+  return {
+    ...data,
+    date_of_expense: { ...data.date_of_expense, confidence: Math.min(data.date_of_expense.confidence, DATE_REVIEW_CONFIDENCE) },
+    review_notes: { ...data.review_notes, date_of_expense: [existing, ...notes].filter(Boolean).join(' ') }
+  };
+}
+
+function capConfidence<T extends { confidence: number }>(field: T): T {
+  return { ...field, confidence: Math.min(field.confidence, DISAGREEMENT_CONFIDENCE) };
+}
+
+function findTotalCandidates(lines: string[]): TotalCandidate[] {
+  const candidates: TotalCandidate[] = [];
+  lines.forEach((line, index) => {
+    const amounts = extractAmounts(line);
+    if (amounts.length === 0) return;
+
+    let score = 0;
+    for (const { pattern, score: keywordScore } of TOTAL_KEYWORDS) {
+      if (pattern.test(line)) score += keywordScore;
+    }
+    // Later lines are slightly more likely to be the final total
+    score += index / Math.max(1, lines.length);
+    // The amount printed last on a line is the line's value (labels/quantities come first)
+    candidates.push({ amount: amounts[amounts.length - 1], score, line });
+  });
+
+  return candidates.sort((a, b) => b.score - a.score || b.amount - a.amount);
+}
+
+function extractAmounts(line: string): number[] {
+  const amounts: number[] = [];
+  for (const match of Array.from(line.matchAll(AMOUNT_PATTERN))) {
+    amounts.push(parseFloat(`${match[1].replace(/,/g, '')}.${match[2]}`));
+  }
+  return amounts;
+}
+
+function findVendorCandidates(lines: string[]): string[] {
+  const candidates: string[] = [];
+  const labelled = lines.map((line) => line.match(/^(?:merchant|vendor|store|sold\s+by)\s*[:#-]\s*(.+)$/i)).find(Boolean);
+  if (labelled) candidates.push(labelled[1].trim());
+
+  // Otherwise the store name is usually one of the first few header lines
+  for (const line of lines.slice(0, 6)) {
+    const text = line.replace(/\s{2,}.*$/, '').trim();
+    if (!/[A-Za-z]{3}/.test(text)) continue;
+    if (/^\d/.test(text)) continue; // Street address
+    if (/\d+\.\d{2}\b/.test(line)) continue; // Item or amount line
+    if (/\b(?:receipt|invoice|order|tel|phone|www\.|\.com|date|time|cashier|server|table|guest)\b/i.test(text)) continue;
+    if (/\(?\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}/.test(text)) continue;
+    if (/,\s*[A-Z]{2}\s+\d{5}/.test(text)) continue; // City, ST 12345
+    candidates.push(text);
+    if (candidates.length >= 3) break;
+  }
+  return Array.from(new Set(candidates));
+}
+
+function detectCurrency(text: string): string | null {
+  if (/€|\bEUR\b/.test(text)) return 'EUR';
+  if (/£|\bGBP\b/.test(text)) return 'GBP';
+  if (/\bCAD\b|C\$/.test(text)) return 'CAD';
+  if (/\$|\bUSD\b/.test(text)) return 'USD';
+  return null;
+}
+
+function sharesWord(a: string, b: string): boolean {
+  const words = (value: string) => value.toLowerCase().split(/[^a-z0-9]+/).filter((word) => word.length >= 3);
+  const bWords = new Set(words(b));
+  return words(a).some((word) => bWords.has(word));
+}
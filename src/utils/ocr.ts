@@ -0,0 +1,60 @@
+import { createWorker, Worker } from 'tesseract.js';
+import { TextLine } from '../types';
+import { buildTextLines, TextFragment } from './layout';
+
+// OCR engine assets are bundled with the extension (copied to dist/tesseract during build)
+// so scanned receipts can be read offline without fetching anything from a CDN.
+const TESSERACT_ASSET_ROOT = 'tesseract';
+
+export interface OcrResult {
+  text: string;
+  confidence: number; // 0-1, averaged over the recognized words
+  lines: TextLine[];
+}
+
+let workerPromise: Promise<Worker> | null = null;
+
+function getWorker(): Promise<Worker> {
+  if (!workerPromise) {
+    workerPromise = createWorker('eng', 1, {
+      workerPath: chrome.runtime.getURL(`${TESSERACT_ASSET_ROOT}/worker.min.js`),
+      corePath: chrome.runtime.getURL(`${TESSERACT_ASSET_ROOT}/core`),
+      langPath: chrome.runtime.getURL(`${TESSERACT_ASSET_ROOT}/lang`),
+      // Blob workers are blocked by the MV3 content security policy
+      workerBlobURL: false,
+      cacheMethod: 'none'
+    }).catch((error) => {
+      // Allow a later call to retry instead of caching the failure
+      workerPromise = null;
+      throw error;
+    });
+  }
+  return workerPromise;
+}
+
+export async function recognizeCanvas(canvas: HTMLCanvasElement): Promise<OcrResult> {
+  const worker = await getWorker();
+  const { data } = await worker.recognize(canvas);
+  // Rebuild lines from word boxes so OCR pages share the same layout model as text-layer pages
+  const fragments: TextFragment[] = (data.words || []).map((word) => ({
+    text: word.text,
+    x: word.bbox.x0,
+    y: (word.bbox.y0 + word.bbox.y1) / 2,
+    width: word.bbox.x1 - word.bbox.x0,
+    height: word.bbox.y1 - word.bbox.y0
+  }));
+  return {
+    text: data.text || '',
+    confidence: Math.max(0, Math.min(1, (data.confidence || 0) / 100)),
+    lines: buildTextLines(fragments)
+  };
+}
+
+export async function terminateOcr(): Promise<void> {
+  if (!workerPromise) return;
+  const worker = await workerPromise.catch(() => null);
+  workerPromise = null;
+  if (worker) {
+    await worker.terminate();
+  }
+}
@@ -0,0 +1,81 @@
+import { ParsedExpenseData } from '../types';
+
+// Parsed receipts cached in chrome.storage.local, so re-running auto-fill on the same
+// receipt doesn't pay for another model call or come back with a different answer.
+
+const STORAGE_KEY = 'parseCache';
+const MAX_ENTRIES = 50;
+const MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000; // 30 days
+
+interface CacheEntry {
+  data: ParsedExpenseData;
+  createdAt: number;
+  lastUsedAt: number;
+}
+
+type ParseCache = { [key: string]: CacheEntry };
+
+export interface CacheKeyParts {
+  pdfText: string;
+  receiptImage?: string;
+  profile: object; // Profile defaults are part of the prompt, so they're part of the key
+  hints?: string; // Learned corrections in the prompt - a new correction invalidates the cached answer
+  formOptions?: object; // The form's option labels the model chose from
+  descriptionContext?: object; // Event name and attendees for the description
+  provider: string;
+  model: string;
+  promptVersion: string;
+}
+
+export async function buildCacheKey(parts: CacheKeyParts): Promise<string> {
+  const content = await sha256(JSON.stringify([parts.pdfText, parts.receiptImage || '', parts.profile, parts.hints || '', parts.formOptions || {}, parts.descriptionContext || {}]));
+  return `${content}:${parts.provider}:${parts.model}:${parts.promptVersion}`;
+}
+
+export async function getCachedParse(key: string): Promise<ParsedExpenseData | null> {
+  const cache = await readCache();
+  const entry = cache[key];
+  if (!entry) return null;
+
+  if (Date.now() - entry.createdAt > MAX_AGE_MS) {
+    delete cache[key];
+    await chrome.storage.local.set({ [STORAGE_KEY]: cache });
+    return null;
+  }
+
+  entry.lastUsedAt = Date.now();
+  await chrome.storage.local.set({ [STORAGE_KEY]: cache });
+  return { ...entry.data, cached_at: new Date(entry.createdAt).toISOString() };
+}
+
+export async function setCachedParse(key: string, data: ParsedExpenseData): Promise<void> {
+  const cache = await readCache();
+  const now = Date.now();
+  cache[key] = { data, createdAt: now, lastUsedAt: now };
+
+  // Drop expired entries, then the least recently used ones over the limit
+  const keys = Object.keys(cache)
+    .filter((cacheKey) => now - cache[cacheKey].createdAt <= MAX_AGE_MS)
+    .sort((a, b) => cache[b].lastUsedAt - cache[a].lastUsedAt)
+    .slice(0, MAX_ENTRIES);
+  const pruned: ParseCache = {};
+  for (const cacheKey of keys) {
+    pruned[cacheKey] = cache[cacheKey];
+  }
+
+  await chrome.storage.local.set({ [STORAGE_KEY]: pruned });
+}
+
+export async function clearParseCache(): Promise<void> {
+  await chrome.storage.local.remove(STORAGE_KEY);
+}
+
+async function readCache(): Promise<ParseCache> {
+  const storage = await chrome.storage.local.get([STORAGE_KEY]);
+  return storage[STORAGE_KEY] || {};
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
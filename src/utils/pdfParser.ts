@@ -1,10 +1,20 @@
 import * as pdfjsLib from 'pdfjs-dist';
+import { PDFExtractionResult, PageExtraction } from '../types';
+import { recognizeCanvas, terminateOcr } from './ocr';
+import { buildTextLines, fragmentsFromTextItems, linesToText } from './layout';
 
 // Configure PDF.js worker - use local bundled worker file
 // The worker file is copied to dist/ during build
 pdfjsLib.GlobalWorkerOptions.workerSrc = chrome.runtime.getURL('pdf.worker.min.js');
 
-export async function extractTextFromPDF(file: File): Promise<string> {
+// Pages whose text layer has fewer non-whitespace characters than this are treated
+// as scanned/photographed and sent through OCR instead
+const MIN_TEXT_CHARS_PER_PAGE = 25;
+// Render scale for OCR - roughly 150-200 DPI for a letter-size page
+const OCR_RENDER_SCALE = 2;
+
+export async function extractTextFromPDF(file: File): Promise<PDFExtractionResult> {
+  let usedOcr = false;
   try {
     const arrayBuffer = await file.arrayBuffer();
     const pdf = await pdfjsLib.getDocument({ 
@@ -16,20 +26,75 @@ export async function extractTextFromPDF(file: File): Promise<string> {
     }).promise;
     
     let fullText = '';
+    const pages: PageExtraction[] = [];
     
     for (let i = 1; i <= pdf.numPages; i++) {
       const page = await pdf.getPage(i);
       const textContent = await page.getTextContent();
-      const pageText = textContent.items
-        .map((item: any) => item.str)
-        .join(' ');
+      // Rebuild lines from item positions so label/amount pairs stay together
+      const lines = buildTextLines(fragmentsFromTextItems(textContent.items));
+      let pageText = linesToText(lines);
+      let pageInfo: PageExtraction = {
+        pageNumber: i,
+        source: 'text',
+        charCount: countTextChars(pageText),
+        lines
+      };
+
+      if (pageInfo.charCount < MIN_TEXT_CHARS_PER_PAGE) {
+        try {
+          usedOcr = true;
+          const ocr = await ocrPage(page);
+          // Only replace the text layer if OCR actually found more text
+          if (countTextChars(ocr.text) > pageInfo.charCount) {
+            pageText = ocr.lines.length > 0 ? linesToText(ocr.lines) : ocr.text;
+            pageInfo = {
+              pageNumber: i,
+              source: 'ocr',
+              charCount: countTextChars(ocr.text),
+              ocrConfidence: ocr.confidence,
+              lines: ocr.lines
+            };
+          }
+        } catch (ocrError) {
+          console.error(`OCR failed for page ${i}:`, ocrError);
+        }
+      }
+
+      pages.push(pageInfo);
       fullText += pageText + '\n';
     }
     
-    return fullText;
+    return { text: fullText, pages };
   } catch (error) {
     console.error('Error extracting text from PDF:', error);
     throw new Error(`Failed to extract text from PDF: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  } finally {
+    if (usedOcr) {
+      // The OCR engine holds a large WASM heap - release it once the document is done
+      await terminateOcr().catch(() => undefined);
+    }
+  }
+}
+
+async function ocrPage(page: pdfjsLib.PDFPageProxy) {
+  const viewport = page.getViewport({ scale: OCR_RENDER_SCALE });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('Canvas 2D context not available');
   }
+
+  // White background so transparent scans don't render as black for the OCR engine
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  await page.render({ canvasContext: context, viewport }).promise;
+
+  return recognizeCanvas(canvas);
 }
 
+function countTextChars(text: string): number {
+  return text.replace(/\s+/g, '').length;
+}
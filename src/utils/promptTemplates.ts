@@ -0,0 +1,215 @@
+import { DescriptionContext, FormOptions, UserProfile } from '../types';
+import { buildDescriptionInstructions } from './descriptionPresets';
+
+// Extraction prompt templates. The built-in default can be replaced in Options; the
+// template's version is stored with every parse result and is part of the cache key.
+
+export interface PromptTemplate {
+  version: string; // "default-N" for the built-in template, "custom-N-<hash>" for user edits
+  system: string;
+  body: string;
+}
+
+export interface PromptVariables {
+  receipt_text: string;
+  receipt_source_note: string;
+  purchaser_name: string;
+  netid: string;
+  default_club: string;
+  default_payment_method: string;
+  purchase_types: string;
+  payment_methods: string;
+  learned_corrections: string;
+  description_instructions: string;
+}
+
+// Placeholders available in templates, with what they expand to (shown in the Options editor)
+export const PROMPT_PLACEHOLDERS: { [name in keyof PromptVariables]: string } = {
+  receipt_text: 'Text extracted from the receipt (required)',
+  receipt_source_note: 'A note that the text is OCR of an attached photo, or empty',
+  purchaser_name: 'Profile name',
+  netid: 'Profile NetID',
+  default_club: 'Profile default club',
+  default_payment_method: 'Profile default payment method',
+  purchase_types: 'Purchase type options from the form, e.g. Food|Apparel|Other',
+  payment_methods: 'Payment method options from the form',
+  learned_corrections: 'Your past corrections for similar receipts, or empty',
+  description_instructions: 'Description style, event name, attendees and length limit'
+};
+
+// Bump when the default prompt or response handling changes, so cached results from the old prompt are ignored
+const DEFAULT_TEMPLATE_REVISION = 5;
+
+export const DEFAULT_PROMPT_TEMPLATE: PromptTemplate = {
+  version: `default-${DEFAULT_TEMPLATE_REVISION}`,
+  system: 'You are a receipt parsing assistant. Always return valid JSON only, no markdown formatting.',
+  body: `You are an expert at parsing receipt information. Extract structured data from the following receipt text and return it as JSON.
+
+Receipt Text{{receipt_source_note}}:
+{{receipt_text}}
+
+User Profile (use as defaults where applicable):
+- Name: {{purchaser_name}}
+- NetID: {{netid}}
+- Default Club: {{default_club}}
+- Default Payment Method: {{default_payment_method}}
+
+{{learned_corrections}}
+
+Extract the following information and return ONLY valid JSON (no markdown, no code blocks, just the JSON object):
+{
+  "vendor_name": {"value": "string", "confidence": 0.0-1.0},
+  "date_of_expense": {"value": "YYYY-MM-DD", "confidence": 0.0-1.0},
+  "total_amount": {"value": number, "confidence": 0.0-1.0},
+  "subtotal": {"value": number or null, "confidence": 0.0-1.0},
+  "tax": {"value": number or null, "confidence": 0.0-1.0},
+  "tip": {"value": number or null, "confidence": 0.0-1.0},
+  "shipping": {"value": number or null, "confidence": 0.0-1.0},
+  "discount": {"value": number or null, "confidence": 0.0-1.0},
+  "likely_purchase_type": {"value": "one of: {{purchase_types}}", "confidence": 0.0-1.0},
+  "payment_method": {"value": "one of: {{payment_methods}}", "confidence": 0.0-1.0},
+  "description_suggestion": {"value": "string", "confidence": 0.0-1.0},
+  "nyu_event_link_guess": {"value": "string or empty string if not found", "confidence": 0.0-1.0},
+  "line_items": [
+    {"description": "string", "quantity": number or null, "unit_price": number or null, "line_total": number or null, "confidence": 0.0-1.0}
+  ]
+}
+
+IMPORTANT INSTRUCTIONS:
+1. For "description_suggestion": {{description_instructions}} Base it on the items you listed in "line_items" - name the actual items purchased, and do not mention items that are not on the receipt. Use the vendor name and any context clues to create a reasonable business justification. If this is for a club/organization expense, frame it in that context. Make it professional and clear. Do NOT use "N/A" - always provide a reasonable description based on what you can infer from the receipt, even if details are limited.
+
+2. For "nyu_event_link_guess": Only include a value if you can reasonably infer it from the receipt (e.g., event name mentioned). Otherwise use an empty string "", not "n/a".
+
+3. For "line_items": List every purchased item printed on the receipt, in order, with a readable description (expand obvious abbreviations). Use null for a quantity or price that is not printed. Do NOT include subtotal, tax, tip, discount, or total lines as items. Use an empty array if no items are listed.
+
+4. For "subtotal", "tax", "tip", "shipping" and "discount": Use the amounts printed on the receipt, or null if the receipt has no such line. Give "discount" as a positive number (the amount taken off). Combine multiple tax lines into one "tax" value, and treat delivery or service fees as "shipping".
+
+5. The receipt text preserves the printed layout: each line is one printed row, and a label (e.g. "Subtotal", "Tax", "Total", "Date") is followed by its value on the same line. Use the amount on the line labelled as the final total (not the subtotal) for "total_amount", and the transaction date for "date_of_expense".
+
+6. For "likely_purchase_type" and "payment_method": Answer with one of the listed options exactly as written - these are the choices on the form. For "payment_method", pick the option that matches the user's default payment method unless the receipt clearly shows a different one.
+
+7. For all other fields: If information cannot be determined with reasonable confidence (confidence < 0.5), use an empty string "" instead of "n/a" or "N/A".
+
+For confidence scores:
+- 0.9-1.0: Very clear in receipt
+- 0.7-0.89: Likely but some ambiguity
+- 0.5-0.69: Uncertain, best guess
+- <0.5: Very uncertain or not found (use empty string for value)
+
+Return ONLY the JSON object, nothing else.`
+};
+
+// Used when the form's live options couldn't be read (e.g. parsing before opening the form)
+export const DEFAULT_PURCHASE_TYPES = ['food', 'apparel', 'subscription', 'other'];
+export const DEFAULT_PAYMENT_METHODS = ['club_card_no_extra', 'club_card_with_extra', 'out_of_pocket'];
+
+// Stored in chrome.storage.local - a long template can exceed sync storage's 8KB per-item limit
+const STORAGE_KEY = 'promptTemplate';
+// Kept apart from the template so a reset doesn't start the custom versions over
+const REVISION_KEY = 'promptTemplateRevision';
+
+export async function loadPromptTemplate(): Promise<PromptTemplate> {
+  const storage = await chrome.storage.local.get([STORAGE_KEY]);
+  return storage[STORAGE_KEY] || DEFAULT_PROMPT_TEMPLATE;
+}
+
+// Saves an edited template under the next custom version. The version ends in a hash of the
+// template, so two different prompts never share a version (and a cache entry).
+export async function savePromptTemplate(system: string, body: string): Promise<PromptTemplate> {
+  const storage = await chrome.storage.local.get([REVISION_KEY]);
+  const revision = (storage[REVISION_KEY] || 0) + 1;
+  const template: PromptTemplate = { version: `custom-${revision}-${await templateHash(system, body)}`, system, body };
+  await chrome.storage.local.set({ [STORAGE_KEY]: template, [REVISION_KEY]: revision });
+  return template;
+}
+
+async function templateHash(system: string, body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify([system, body])));
+  return Array.from(new Uint8Array(digest).slice(0, 4)).map((byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function resetPromptTemplate(): Promise<PromptTemplate> {
+  await chrome.storage.local.remove(STORAGE_KEY);
+  return DEFAULT_PROMPT_TEMPLATE;
+}
+
+// Returns problems that would make the template unusable
+export function validatePromptTemplate(body: string): string[] {
+  const errors: string[] = [];
+  if (!body.includes('{{receipt_text}}')) {
+    errors.push('The template must include {{receipt_text}}');
+  }
+  const unknown = Array.from(body.matchAll(/\{\{\s*(\w+)\s*\}\}/g))
+    .map((match) => match[1])
+    .filter((name) => !(name in PROMPT_PLACEHOLDERS));
+  if (unknown.length > 0) {
+    errors.push(`Unknown placeholder(s): ${Array.from(new Set(unknown)).map((name) => `{{${name}}}`).join(', ')}`);
+  }
+  return errors;
+}
+
+export function buildPromptVariables(
+  pdfText: string,
+  userProfile: UserProfile,
+  hasImage: boolean,
+  learnedCorrections: string = '',
+  formOptions: FormOptions = {},
+  descriptionContext: DescriptionContext = {}
+): PromptVariables {
+  return {
+    receipt_text: pdfText,
+    receipt_source_note: hasImage
+      ? ' (OCR of the attached receipt photo - may contain recognition errors; trust the photo when they disagree)'
+      : '',
+    purchaser_name: userProfile.purchaser_name || 'N/A',
+    netid: userProfile.netid || 'N/A',
+    default_club: userProfile.default_club || 'N/A',
+    default_payment_method: userProfile.default_payment_method || 'N/A',
+    purchase_types: getOptionChoices(formOptions).purchaseTypes.join('|'),
+    payment_methods: getOptionChoices(formOptions).paymentMethods.join('|'),
+    learned_corrections: learnedCorrections,
+    description_instructions: buildDescriptionInstructions(userProfile.description_preset, descriptionContext, formOptions.description_max_length)
+  };
+}
+
+// The live form options when known, otherwise the canonical values the content script maps itself
+export function getOptionChoices(formOptions: FormOptions = {}): { purchaseTypes: string[]; paymentMethods: string[] } {
+  return {
+    purchaseTypes: formOptions.choices?.purchase_type?.length ? formOptions.choices.purchase_type : DEFAULT_PURCHASE_TYPES,
+    paymentMethods: formOptions.choices?.payment_method?.length ? formOptions.choices.payment_method : DEFAULT_PAYMENT_METHODS
+  };
+}
+
+export function renderPrompt(template: string, variables: PromptVariables): string {
+  // Templates written before corrections existed still get them, at the end
+  if (variables.learned_corrections && !/\{\{\s*learned_corrections\s*\}\}/.test(template)) {
+    template = `${template}\n\n{{learned_corrections}}`;
+  }
+  // Same for the description style, which older templates describe with fixed wording
+  if (!/\{\{\s*description_instructions\s*\}\}/.test(template)) {
+    template = `${template}\n\nFor "description_suggestion": {{description_instructions}}`;
+  }
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    name in variables ? variables[name as keyof PromptVariables] : placeholder
+  );
+}
+
+// Used by the Options editor to preview and test a template
+export const SAMPLE_RECEIPT_TEXT = `JOE'S PIZZA
+7 Carmine St, New York, NY 10014
+(212) 366-1182
+
+Date: 03/14/2025   Time: 7:42 PM
+Order #1187
+
+2   Large Cheese Pie        @ 24.00     48.00
+1   Large Pepperoni Pie                 27.00
+6   Fountain Soda           @ 2.50      15.00
+
+Subtotal                                90.00
+Sales Tax 8.875%                         7.99
+Tip                                     15.00
+TOTAL                                  112.99
+
+VISA ************4821                  112.99
+Thank you!`;
@@ -0,0 +1,43 @@
+import { ProviderSettings } from '../../types';
+import { AIProvider, buildResponseFormat, readChatCompletion, trimTrailingSlash } from './common';
+import { fetchWithRetry, getRetryOptions } from './http';
+
+const DEFAULT_API_VERSION = '2024-10-21';
+// Structured outputs (strict json_schema) need this api-version or later; older ones get json_object
+const FIRST_JSON_SCHEMA_API_VERSION = '2024-08-01';
+
+function supportsJsonSchema(apiVersion: string): boolean {
+  const date = apiVersion.match(/^\d{4}-\d{2}-\d{2}/);
+  return date !== null && date[0] >= FIRST_JSON_SCHEMA_API_VERSION;
+}
+
+// Azure OpenAI addresses models by deployment name and authenticates with an api-key header
+export function createAzureOpenAIProvider(settings: ProviderSettings): AIProvider {
+  return {
+    id: 'azure-openai',
+    label: 'Azure OpenAI',
+    model: settings.model,
+    supportsVision: true,
+    async complete(request) {
+      const apiVersion = settings.apiVersion || DEFAULT_API_VERSION;
+      const url = `${trimTrailingSlash(settings.endpoint)}/openai/deployments/${encodeURIComponent(settings.model)}` +
+        `/chat/completions?api-version=${encodeURIComponent(apiVersion)}`;
+
+      const response = await fetchWithRetry(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'api-key': settings.apiKey
+        },
+        body: JSON.stringify({
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          response_format: buildResponseFormat(request.responseSchema, supportsJsonSchema(apiVersion))
+        })
+      }, getRetryOptions(settings, 'Azure OpenAI', request.signal));
+
+      return readChatCompletion(response, 'Azure OpenAI');
+    }
+  };
+}
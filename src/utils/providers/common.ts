@@ -0,0 +1,108 @@
+import { ProviderId, TokenUsage } from '../../types';
+import { ResponseSchema, toStructuredOutputSchema } from '../receiptSchema';
+import { ProviderError } from './http';
+
+export type ChatContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string; detail?: 'low' | 'high' | 'auto' } };
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | ChatContentPart[];
+}
+
+export interface CompletionRequest {
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+  responseSchema?: ResponseSchema; // Request structured JSON output where the provider supports it
+  signal?: AbortSignal; // Cancels the request, including any pending retries
+}
+
+export interface CompletionResponse {
+  content: string;
+  usage?: TokenUsage; // Missing when the server doesn't report it
+}
+
+// A chat-completion backend. Providers only move messages in and text out -
+// prompt building and result parsing live in receiptParser.ts.
+export interface AIProvider {
+  id: ProviderId;
+  label: string;
+  model: string;
+  supportsVision: boolean;
+  complete(request: CompletionRequest): Promise<CompletionResponse>;
+}
+
+export interface ProviderDefinition {
+  label: string;
+  defaultEndpoint: string;
+  defaultModel: string;
+  requiresApiKey: boolean;
+}
+
+export const PROVIDER_DEFINITIONS: Record<ProviderId, ProviderDefinition> = {
+  'openai': {
+    label: 'OpenAI',
+    defaultEndpoint: 'https://api.openai.com/v1',
+    defaultModel: 'gpt-4o',
+    requiresApiKey: true
+  },
+  'azure-openai': {
+    label: 'Azure OpenAI',
+    defaultEndpoint: 'https://YOUR-RESOURCE.openai.azure.com',
+    defaultModel: 'gpt-4o',
+    requiresApiKey: true
+  },
+  'watsonx': {
+    label: 'IBM watsonx.ai',
+    defaultEndpoint: 'https://us-south.ml.cloud.ibm.com',
+    defaultModel: 'meta-llama/llama-3-3-70b-instruct',
+    requiresApiKey: true
+  },
+  'openai-compatible': {
+    label: 'OpenAI-compatible (Ollama, LM Studio, vLLM...)',
+    defaultEndpoint: 'http://localhost:11434/v1',
+    defaultModel: 'llama3.1',
+    requiresApiKey: false
+  }
+};
+
+// OpenAI-style response_format: strict JSON schema where supported, otherwise plain JSON mode
+export function buildResponseFormat(schema: ResponseSchema | undefined, supportsJsonSchema: boolean): object | undefined {
+  if (!schema) return undefined;
+  if (!supportsJsonSchema) return { type: 'json_object' };
+  return {
+    type: 'json_schema',
+    json_schema: {
+      name: schema.name,
+      strict: true,
+      schema: toStructuredOutputSchema(schema.schema)
+    }
+  };
+}
+
+export function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+// Shared response handling for the OpenAI-shaped chat completion APIs.
+// Error statuses are already handled by fetchWithRetry.
+export async function readChatCompletion(response: Response, label: string): Promise<CompletionResponse> {
+  let data: any;
+  try {
+    data = await response.json();
+  } catch {
+    throw new ProviderError('malformed', `${label} returned a response that is not JSON`);
+  }
+  const content = data.choices?.[0]?.message?.content?.trim();
+
+  if (!content) {
+    throw new ProviderError('malformed', `No content returned from ${label}`);
+  }
+
+  const usage = data.usage
+    ? { promptTokens: data.usage.prompt_tokens || 0, completionTokens: data.usage.completion_tokens || 0 }
+    : undefined;
+  return { content, usage };
+}
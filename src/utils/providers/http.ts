@@ -0,0 +1,191 @@
+import { ApiErrorCategory, ProviderSettings, TokenUsage } from '../../types';
+
+export const DEFAULT_TIMEOUT_SECONDS = 60;
+export const DEFAULT_MAX_RETRIES = 2;
+
+const BASE_BACKOFF_MS = 1000;
+// Never wait longer than this between attempts, even if Retry-After asks for more
+const MAX_BACKOFF_MS = 30 * 1000;
+
+// An API failure with a category the side panel can turn into a useful message
+export class ProviderError extends Error {
+  category: ApiErrorCategory;
+  status?: number;
+  usage?: TokenUsage; // Tokens spent on responses received before the failure
+
+  constructor(category: ApiErrorCategory, message: string, status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.category = category;
+    this.status = status;
+  }
+}
+
+export interface RetryOptions {
+  label: string;
+  timeoutMs: number;
+  maxRetries: number;
+  signal?: AbortSignal; // Aborted when the user cancels the parse
+}
+
+export function getRetryOptions(settings: ProviderSettings, label: string, signal?: AbortSignal): RetryOptions {
+  return {
+    label,
+    timeoutMs: (settings.timeoutSeconds || DEFAULT_TIMEOUT_SECONDS) * 1000,
+    maxRetries: settings.maxRetries ?? DEFAULT_MAX_RETRIES,
+    signal
+  };
+}
+
+// fetch with a per-attempt timeout, cancellation, and exponential backoff on 408/429/5xx and
+// network failures. Non-retryable error responses are classified and thrown; successful
+// responses are returned for the caller to read.
+export async function fetchWithRetry(url: string, init: RequestInit, options: RetryOptions): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    throwIfCancelled(options.signal);
+
+    let response: Response;
+    try {
+      response = await fetchWithTimeout(url, init, options);
+    } catch (error) {
+      const providerError = error instanceof ProviderError
+        ? error
+        : new ProviderError('network', `Could not reach ${options.label}: ${error instanceof Error ? error.message : String(error)}`);
+      if (providerError.category === 'cancelled' || attempt >= options.maxRetries) {
+        throw providerError;
+      }
+      console.warn(`${options.label} request failed (${providerError.message}), retrying...`);
+      await sleep(backoffDelay(attempt), options.signal);
+      continue;
+    }
+
+    if (response.ok) {
+      return response;
+    }
+
+    const body = await response.text();
+    const error = classifyErrorResponse(response.status, body, options.label);
+    if (!isRetryable(error) || attempt >= options.maxRetries) {
+      throw error;
+    }
+
+    const delay = parseRetryAfter(response.headers.get('Retry-After')) ?? backoffDelay(attempt);
+    console.warn(`${options.label} returned ${response.status}, retrying in ${Math.round(delay / 1000)}s...`);
+    await sleep(Math.min(delay, MAX_BACKOFF_MS), options.signal);
+  }
+}
+
+export function classifyErrorResponse(status: number, body: string, label: string): ProviderError {
+  const detail = body.slice(0, 300);
+  if (status === 401 || status === 403) {
+    return new ProviderError('auth', `${label} rejected the API key: ${status} - ${detail}`, status);
+  }
+  if (status === 429) {
+    // OpenAI and Azure report an exhausted balance as a 429 too - retrying won't help
+    const category = /insufficient_quota|quota|billing/i.test(body) ? 'quota' : 'rate_limit';
+    return new ProviderError(category, `${label} API error: ${status} - ${detail}`, status);
+  }
+  if (status === 408) {
+    return new ProviderError('timeout', `${label} API error: ${status} - ${detail}`, status);
+  }
+  if (status >= 500) {
+    return new ProviderError('server', `${label} API error: ${status} - ${detail}`, status);
+  }
+  return new ProviderError('request', `${label} API error: ${status} - ${detail}`, status);
+}
+
+// Short, actionable text for the side panel. Full details stay in the console.
+export function getFriendlyErrorMessage(error: unknown): string {
+  if (!(error instanceof ProviderError)) {
+    return error instanceof Error ? error.message : 'An error occurred';
+  }
+  switch (error.category) {
+    case 'auth':
+      return 'The AI provider rejected your API key. Check the key in Options.';
+    case 'quota':
+      return 'Your AI provider account is out of credits or quota. Check your billing, then try again.';
+    case 'rate_limit':
+      return 'The AI provider is rate limiting requests. Wait a minute and try again.';
+    case 'network':
+      return 'Could not reach the AI provider. Check your internet connection and the endpoint in Options.';
+    case 'timeout':
+      return 'The AI provider took too long to respond. Try again, or raise the timeout in Options.';
+    case 'server':
+      return 'The AI provider is having problems right now. Try again in a few minutes.';
+    case 'malformed':
+      return 'The AI returned a response that could not be read, even after a repair attempt. Try again.';
+    case 'cancelled':
+      return 'Receipt analysis cancelled.';
+    default:
+      return error.message;
+  }
+}
+
+function isRetryable(error: ProviderError): boolean {
+  return error.category === 'rate_limit' || error.category === 'server' || error.category === 'timeout';
+}
+
+async function fetchWithTimeout(url: string, init: RequestInit, options: RetryOptions): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, options.timeoutMs);
+  const onCancel = () => controller.abort();
+  options.signal?.addEventListener('abort', onCancel);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (options.signal?.aborted) {
+      throw new ProviderError('cancelled', `${options.label} request cancelled`);
+    }
+    if (timedOut) {
+      throw new ProviderError('timeout', `${options.label} did not respond within ${options.timeoutMs / 1000}s`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    options.signal?.removeEventListener('abort', onCancel);
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function backoffDelay(attempt: number): number {
+  // 1s, 2s, 4s... with jitter so parallel clients don't retry in lockstep
+  const delay = BASE_BACKOFF_MS * Math.pow(2, attempt);
+  return Math.min(delay + Math.random() * delay * 0.25, MAX_BACKOFF_MS);
+}
+
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ProviderError('cancelled', 'Request cancelled');
+  }
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new ProviderError('cancelled', 'Request cancelled'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
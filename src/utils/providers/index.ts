@@ -0,0 +1,48 @@
+import { ProviderId, ProviderSettings } from '../../types';
+import { PROVIDER_DEFINITIONS, AIProvider } from './common';
+import { createOpenAIProvider } from './openai';
+import { createAzureOpenAIProvider } from './azureOpenai';
+import { createWatsonxProvider } from './watsonx';
+
+export * from './common';
+export * from './http';
+
+export function getDefaultProviderSettings(provider: ProviderId = 'openai'): ProviderSettings {
+  const definition = PROVIDER_DEFINITIONS[provider];
+  return {
+    provider,
+    model: definition.defaultModel,
+    endpoint: definition.defaultEndpoint,
+    apiKey: ''
+  };
+}
+
+// Read provider settings, migrating the original OpenAI-only `openaiApiKey` setting
+export async function loadProviderSettings(): Promise<ProviderSettings> {
+  const storage = await chrome.storage.sync.get(['providerSettings', 'openaiApiKey']);
+  if (storage.providerSettings) {
+    return { ...getDefaultProviderSettings(storage.providerSettings.provider), ...storage.providerSettings };
+  }
+  return { ...getDefaultProviderSettings('openai'), apiKey: storage.openaiApiKey || '' };
+}
+
+export function isProviderConfigured(settings: ProviderSettings): boolean {
+  if (!settings.endpoint || !settings.model) return false;
+  if (PROVIDER_DEFINITIONS[settings.provider].requiresApiKey && !settings.apiKey) return false;
+  if (settings.provider === 'watsonx' && !settings.projectId) return false;
+  return true;
+}
+
+export function createProvider(settings: ProviderSettings): AIProvider {
+  switch (settings.provider) {
+    case 'openai':
+    case 'openai-compatible':
+      return createOpenAIProvider(settings);
+    case 'azure-openai':
+      return createAzureOpenAIProvider(settings);
+    case 'watsonx':
+      return createWatsonxProvider(settings);
+    default:
+      throw new Error(`Unknown AI provider: ${(settings as ProviderSettings).provider}`);
+  }
+}
@@ -0,0 +1,37 @@
+import { ProviderSettings } from '../../types';
+import { AIProvider, PROVIDER_DEFINITIONS, buildResponseFormat, readChatCompletion, trimTrailingSlash } from './common';
+import { fetchWithRetry, getRetryOptions } from './http';
+
+// OpenAI, and any server exposing the same /chat/completions API (Ollama, LM Studio, vLLM...)
+export function createOpenAIProvider(settings: ProviderSettings): AIProvider {
+  const label = settings.provider === 'openai' ? 'OpenAI' : PROVIDER_DEFINITIONS['openai-compatible'].label;
+
+  return {
+    id: settings.provider,
+    label,
+    model: settings.model,
+    // Local servers usually run text-only models
+    supportsVision: settings.provider === 'openai',
+    async complete(request) {
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (settings.apiKey) {
+        headers['Authorization'] = `Bearer ${settings.apiKey}`;
+      }
+
+      const response = await fetchWithRetry(`${trimTrailingSlash(settings.endpoint)}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: settings.model,
+          messages: request.messages,
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          // Local servers generally support JSON mode but not strict schemas
+          response_format: buildResponseFormat(request.responseSchema, settings.provider === 'openai')
+        })
+      }, getRetryOptions(settings, label, request.signal));
+
+      return readChatCompletion(response, label);
+    }
+  };
+}
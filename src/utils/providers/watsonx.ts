@@ -0,0 +1,98 @@
+import { ProviderSettings } from '../../types';
+import { AIProvider, ChatMessage, buildResponseFormat, readChatCompletion, trimTrailingSlash } from './common';
+import { ProviderError, RetryOptions, fetchWithRetry, getRetryOptions } from './http';
+
+const DEFAULT_AUTH_ENDPOINT = 'https://iam.cloud.ibm.com/identity/token';
+const API_VERSION = '2024-10-08';
+// Refresh IAM tokens a minute before they expire
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+let cachedToken: { apiKey: string; authEndpoint: string; token: string; expiresAt: number } | null = null;
+
+// IBM watsonx.ai chat API. The IBM Cloud API key is exchanged for a short-lived IAM bearer token.
+export function createWatsonxProvider(settings: ProviderSettings): AIProvider {
+  return {
+    id: 'watsonx',
+    label: 'IBM watsonx.ai',
+    model: settings.model,
+    supportsVision: false,
+    async complete(request) {
+      const token = await getIamToken(
+        settings.apiKey,
+        settings.authEndpoint || DEFAULT_AUTH_ENDPOINT,
+        getRetryOptions(settings, 'IBM Cloud IAM', request.signal)
+      );
+
+      const response = await fetchWithRetry(`${trimTrailingSlash(settings.endpoint)}/ml/v1/text/chat?version=${API_VERSION}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+          'Authorization': `Bearer ${token}`
+        },
+        body: JSON.stringify({
+          model_id: settings.model,
+          project_id: settings.projectId,
+          messages: request.messages.map(toTextMessage),
+          temperature: request.temperature,
+          max_tokens: request.maxTokens,
+          response_format: buildResponseFormat(request.responseSchema, false)
+        })
+      }, getRetryOptions(settings, 'IBM watsonx.ai', request.signal));
+
+      return readChatCompletion(response, 'IBM watsonx.ai');
+    }
+  };
+}
+
+// watsonx text models take plain string content
+function toTextMessage(message: ChatMessage): ChatMessage {
+  if (typeof message.content === 'string') return message;
+  const text = message.content
+    .map((part) => (part.type === 'text' ? part.text : ''))
+    .filter(Boolean)
+    .join('\n\n');
+  return { role: message.role, content: text };
+}
+
+async function getIamToken(apiKey: string, authEndpoint: string, retryOptions: RetryOptions): Promise<string> {
+  if (cachedToken && cachedToken.apiKey === apiKey && cachedToken.authEndpoint === authEndpoint &&
+      cachedToken.expiresAt - TOKEN_EXPIRY_MARGIN_MS > Date.now()) {
+    return cachedToken.token;
+  }
+
+  let response: Response;
+  try {
+    response = await fetchWithRetry(authEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json'
+      },
+      body: new URLSearchParams({
+        grant_type: 'urn:ibm:params:oauth:grant-type:apikey',
+        apikey: apiKey
+      }).toString()
+    }, retryOptions);
+  } catch (error) {
+    // IAM answers an invalid API key with a 400
+    if (error instanceof ProviderError && error.category === 'request') {
+      throw new ProviderError('auth', error.message, error.status);
+    }
+    throw error;
+  }
+
+  const data = await response.json();
+  if (!data.access_token) {
+    throw new ProviderError('auth', 'No access token returned from IBM Cloud IAM');
+  }
+
+  cachedToken = {
+    apiKey,
+    authEndpoint,
+    token: data.access_token,
+    // expires_in is in seconds
+    expiresAt: Date.now() + (data.expires_in || 3600) * 1000
+  };
+  return cachedToken.token;
+}
@@ -0,0 +1,280 @@
+import { AmountField, DescriptionContext, DescriptionPreset, FormOptions, LineItem, ParsedExpenseData, TokenUsage } from '../types';
+import { AIProvider, ChatMessage, ProviderError } from './providers';
+import { buildReceiptResponseSchema, ResponseSchema, sanitizeResponse, validateAgainstSchema } from './receiptSchema';
+import { PromptTemplate, buildPromptVariables, getOptionChoices, renderPrompt } from './promptTemplates';
+import { buildDescriptionInstructions, fitToLength } from './descriptionPresets';
+
+export interface ParseOptions {
+  receiptImage?: string; // JPEG data URL of a photographed receipt
+  signal?: AbortSignal;
+  learnedCorrections?: string; // Hints built from the user's past corrections
+  formOptions?: FormOptions; // Live option labels from the form - the model picks from these
+  descriptionContext?: DescriptionContext; // Event name and attendees entered in the side panel
+}
+
+export async function parseReceiptWithAI(
+  provider: AIProvider,
+  template: PromptTemplate,
+  pdfText: string,
+  userProfile: any,
+  options: ParseOptions = {}
+): Promise<ParsedExpenseData> {
+  const { receiptImage, signal, learnedCorrections, formOptions, descriptionContext } = options;
+  // Text-only models get the OCR text alone
+  const image = provider.supportsVision ? receiptImage : undefined;
+
+  const variables = buildPromptVariables(pdfText, userProfile, Boolean(image), learnedCorrections, formOptions, descriptionContext);
+  const prompt = renderPrompt(template.body, variables);
+
+  const messages: ChatMessage[] = [
+    {
+      role: 'system',
+      content: template.system
+    },
+    {
+      role: 'user',
+      content: image
+        ? [
+            { type: 'text', text: prompt },
+            { type: 'image_url', image_url: { url: image, detail: 'high' } }
+          ]
+        : prompt
+    }
+  ];
+
+  const choices = getOptionChoices(formOptions);
+  const responseSchema = buildReceiptResponseSchema(choices.purchaseTypes, choices.paymentMethods);
+  const { parsed, dropped, usage } = await requestValidatedResponse(provider, messages, responseSchema, signal);
+
+  // Merge with user profile defaults
+  const result: ParsedExpenseData = {
+    purchaser_name: {
+      value: userProfile.purchaser_name || '',
+      confidence: 1.0
+    },
+    netid: {
+      value: userProfile.netid || '',
+      confidence: 1.0
+    },
+    club_name: {
+      value: userProfile.default_club || '',
+      confidence: 0.9
+    },
+    // The model's pick from the form's options, falling back to the profile default
+    payment_method: parsed.payment_method?.value
+      ? parsed.payment_method
+      : { value: userProfile.default_payment_method || 'out_of_pocket', confidence: 0.9 },
+    vendor_name: parsed.vendor_name || { value: '', confidence: 0 },
+    date_of_expense: parsed.date_of_expense || { value: '', confidence: 0 },
+    total_amount: parsed.total_amount || { value: 0, confidence: 0 },
+    purchase_type: parsed.likely_purchase_type || { value: 'other', confidence: 0 },
+    event_link: parsed.nyu_event_link_guess || { value: '', confidence: 0 },
+    description: parsed.description_suggestion || { value: '', confidence: 0 },
+    line_items: normalizeLineItems(parsed.line_items),
+    subtotal: normalizeAmountField(parsed.subtotal),
+    tax: normalizeAmountField(parsed.tax),
+    tip: normalizeAmountField(parsed.tip),
+    shipping: normalizeAmountField(parsed.shipping),
+    discount: normalizeAmountField(parsed.discount),
+    dropped_fields: dropped.length > 0 ? dropped : undefined,
+    usage,
+    prompt_version: template.version
+  };
+
+  // Fall back to a plain item list if the model gave no description
+  if (!result.description.value && result.line_items && result.line_items.length > 0) {
+    result.description = {
+      value: describeLineItems(result.line_items, result.vendor_name.value),
+      confidence: 0.6
+    };
+  }
+
+  return result;
+}
+
+// Ask the model for the receipt JSON and validate it against the schema. A response that
+// isn't valid JSON or fails validation gets one repair pass; fields still invalid after
+// that are dropped (and reported) instead of being passed to the form.
+async function requestValidatedResponse(
+  provider: AIProvider,
+  messages: ChatMessage[],
+  responseSchema: ResponseSchema,
+  signal?: AbortSignal
+): Promise<{ parsed: any; dropped: string[]; usage?: TokenUsage }> {
+  const request = { temperature: 0.3, maxTokens: 2000, responseSchema, signal };
+
+  const { content, usage: firstUsage } = await provider.complete({ ...request, messages });
+  let usage = firstUsage;
+  let parsed = parseJsonResponse(content);
+  let errors = parsed === undefined
+    ? ['Response was not valid JSON (it may have been truncated)']
+    : validateAgainstSchema(responseSchema.schema, parsed);
+
+  if (errors.length > 0) {
+    console.warn('AI response failed validation, requesting a repair:', errors);
+    const repair = await provider.complete({
+      ...request,
+      messages: [
+        ...messages,
+        { role: 'assistant', content },
+        {
+          role: 'user',
+          content: `Your previous response did not match the required JSON format:\n${errors.slice(0, 20).map((error) => `- ${error}`).join('\n')}\n\nReturn the complete corrected JSON object only. Every field must be an object with a "value" and a numeric "confidence" between 0 and 1.`
+        }
+      ]
+    }).catch((error) => {
+      throw withUsage(error, usage);
+    });
+    usage = addUsage(usage, repair.usage);
+    const repaired = parseJsonResponse(repair.content);
+    if (repaired !== undefined) {
+      parsed = repaired;
+      errors = validateAgainstSchema(responseSchema.schema, parsed);
+    }
+  }
+
+  if (parsed === undefined || parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw withUsage(new ProviderError('malformed', `${provider.label} returned malformed output that could not be repaired`), usage);
+  }
+
+  if (errors.length === 0) {
+    return { parsed, dropped: [], usage };
+  }
+  console.warn('Dropping fields that are still invalid after repair:', errors);
+  const { value, dropped } = sanitizeResponse(responseSchema.schema, parsed);
+  return { parsed: value, dropped, usage };
+}
+
+// Alternative descriptions for an already-parsed receipt, written from its fields instead of
+// re-sending the receipt
+export async function generateDescriptionAlternatives(
+  provider: AIProvider,
+  data: ParsedExpenseData,
+  preset: DescriptionPreset | undefined,
+  context: DescriptionContext = {},
+  maxLength?: number,
+  count: number = 3
+): Promise<{ descriptions: string[]; usage?: TokenUsage }> {
+  const items = (data.line_items || [])
+    .map((item) => `- ${item.quantity && item.quantity > 1 ? `${item.quantity} x ` : ''}${item.description}${item.line_total !== null ? ` ($${item.line_total.toFixed(2)})` : ''}`)
+    .join('\n');
+  const prompt = `Write ${count} different descriptions of the reason for this club purchase, for an NYU Engage expense form.
+
+Vendor: ${data.vendor_name.value || 'unknown'}
+Date: ${data.date_of_expense.value || 'unknown'}
+Total: ${data.total_amount.value || 'unknown'}
+Purchase type: ${data.purchase_type.value || 'unknown'}
+Items:
+${items || '- (no items listed)'}
+
+${buildDescriptionInstructions(preset, context, maxLength)} Name only the items listed above. Make each description professional, and vary the wording between them.
+
+Return ONLY a JSON object of the form {"descriptions": ["...", "..."]}.`;
+
+  const responseSchema: ResponseSchema = {
+    name: 'descriptions',
+    schema: {
+      type: 'object',
+      properties: { descriptions: { type: 'array', items: { type: 'string' } } },
+      required: ['descriptions'],
+      additionalProperties: false
+    }
+  };
+  const { content, usage } = await provider.complete({
+    messages: [
+      { role: 'system', content: 'You write expense descriptions. Always return valid JSON only, no markdown formatting.' },
+      { role: 'user', content: prompt }
+    ],
+    temperature: 0.9, // Higher than parsing - the point is varied wording
+    maxTokens: 1000,
+    responseSchema
+  });
+
+  const parsed = parseJsonResponse(content);
+  if (!parsed || validateAgainstSchema(responseSchema.schema, parsed).length > 0) {
+    throw withUsage(new ProviderError('malformed', `${provider.label} returned malformed descriptions`), usage);
+  }
+  const descriptions = (parsed.descriptions as string[])
+    .map((description) => fitToLength(description.trim(), maxLength))
+    .filter((description) => description !== '');
+  return { descriptions: Array.from(new Set(descriptions)), usage };
+}
+
+// Attach the tokens already spent to a provider error, so a failed parse is still counted
+function withUsage(error: unknown, usage?: TokenUsage): unknown {
+  if (error instanceof ProviderError) {
+    error.usage = addUsage(usage, error.usage);
+  }
+  return error;
+}
+
+function addUsage(a?: TokenUsage, b?: TokenUsage): TokenUsage | undefined {
+  if (!a || !b) return a || b;
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens
+  };
+}
+
+function parseJsonResponse(content: string): any {
+  // Clean the response - remove markdown code blocks if present
+  let jsonText = content.trim();
+  if (jsonText.startsWith('```json')) {
+    jsonText = jsonText.replace(/```json\n?/g, '').replace(/```\n?/g, '');
+  } else if (jsonText.startsWith('```')) {
+    jsonText = jsonText.replace(/```\n?/g, '');
+  }
+
+  try {
+    return JSON.parse(jsonText);
+  } catch {
+    // Some models wrap the object in prose - try the outermost braces
+    const start = jsonText.indexOf('{');
+    const end = jsonText.lastIndexOf('}');
+    if (start !== -1 && end > start) {
+      try {
+        return JSON.parse(jsonText.slice(start, end + 1));
+      } catch {
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+}
+
+function toNumber(value: any): number | null {
+  if (value === null || value === undefined || value === '') return null;
+  const num = typeof value === 'number' ? value : parseFloat(String(value).replace(/[^0-9.-]/g, ''));
+  return isNaN(num) ? null : num;
+}
+
+function normalizeAmountField(rawField: any): AmountField | undefined {
+  if (!rawField || typeof rawField !== 'object') return undefined;
+  return {
+    value: toNumber(rawField.value),
+    confidence: typeof rawField.confidence === 'number' ? rawField.confidence : 0
+  };
+}
+
+function normalizeLineItems(rawItems: any): LineItem[] {
+  if (!Array.isArray(rawItems)) return [];
+
+  return rawItems
+    .filter((item) => item && typeof item.description === 'string' && item.description.trim() !== '')
+    .map((item) => ({
+      description: item.description.trim(),
+      quantity: toNumber(item.quantity),
+      unit_price: toNumber(item.unit_price),
+      line_total: toNumber(item.line_total),
+      confidence: typeof item.confidence === 'number' ? Math.max(0, Math.min(1, item.confidence)) : 0.5
+    }));
+}
+
+function describeLineItems(items: LineItem[], vendorName: string): string {
+  const names = items.slice(0, 5).map((item) =>
+    item.quantity && item.quantity > 1 ? `${item.quantity} x ${item.description}` : item.description
+  );
+  const more = items.length > 5 ? `, and ${items.length - 5} other item(s)` : '';
+  return `Purchase of ${names.join(', ')}${more}${vendorName ? ` from ${vendorName}` : ''} for club use.`;
+}
+
@@ -0,0 +1,199 @@
+// JSON schema for the model's receipt response, derived from ParsedExpenseData. It is sent to
+// providers that support structured output and used to validate every response at runtime.
+
+export interface JsonSchema {
+  type?: string | string[];
+  properties?: { [key: string]: JsonSchema };
+  required?: string[];
+  additionalProperties?: boolean;
+  items?: JsonSchema;
+  enum?: (string | number | null)[];
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface ResponseSchema {
+  name: string;
+  schema: JsonSchema;
+}
+
+// Names of the model response fields mapped to the ParsedExpenseData field they fill
+export const RESPONSE_FIELD_NAMES: { [responseKey: string]: string } = {
+  vendor_name: 'vendor_name',
+  date_of_expense: 'date_of_expense',
+  total_amount: 'total_amount',
+  subtotal: 'subtotal',
+  tax: 'tax',
+  tip: 'tip',
+  shipping: 'shipping',
+  discount: 'discount',
+  likely_purchase_type: 'purchase_type',
+  payment_method: 'payment_method',
+  description_suggestion: 'description',
+  nyu_event_link_guess: 'event_link',
+  line_items: 'line_items'
+};
+
+const confidence: JsonSchema = { type: 'number', minimum: 0, maximum: 1 };
+
+function field(value: JsonSchema): JsonSchema {
+  return {
+    type: 'object',
+    properties: { value, confidence },
+    required: ['value', 'confidence'],
+    additionalProperties: false
+  };
+}
+
+// Purchase types and payment methods are enums of the form's current options
+export function buildReceiptResponseSchema(purchaseTypes: string[], paymentMethods: string[]): ResponseSchema {
+  const amount = field({ type: ['number', 'null'] });
+  const properties: { [key: string]: JsonSchema } = {
+    vendor_name: field({ type: 'string' }),
+    date_of_expense: field({ type: 'string' }),
+    // An empty string is allowed when the total can't be found
+    total_amount: field({ type: ['number', 'string'] }),
+    subtotal: amount,
+    tax: amount,
+    tip: amount,
+    shipping: amount,
+    discount: amount,
+    likely_purchase_type: field({ type: 'string', enum: [...purchaseTypes, ''] }),
+    payment_method: field({ type: 'string', enum: [...paymentMethods, ''] }),
+    description_suggestion: field({ type: 'string' }),
+    nyu_event_link_guess: field({ type: 'string' }),
+    line_items: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          description: { type: 'string' },
+          quantity: { type: ['number', 'null'] },
+          unit_price: { type: ['number', 'null'] },
+          line_total: { type: ['number', 'null'] },
+          confidence
+        },
+        required: ['description', 'quantity', 'unit_price', 'line_total', 'confidence'],
+        additionalProperties: false
+      }
+    }
+  };
+
+  return {
+    name: 'receipt_extraction',
+    schema: {
+      type: 'object',
+      properties,
+      required: Object.keys(properties),
+      additionalProperties: false
+    }
+  };
+}
+
+// Strict structured-output modes reject range keywords, so send a copy without them
+export function toStructuredOutputSchema(schema: JsonSchema): JsonSchema {
+  const { minimum, maximum, properties, items, ...rest } = schema;
+  const copy: JsonSchema = { ...rest };
+  if (properties) {
+    copy.properties = {};
+    for (const key of Object.keys(properties)) {
+      copy.properties[key] = toStructuredOutputSchema(properties[key]);
+    }
+  }
+  if (items) {
+    copy.items = toStructuredOutputSchema(items);
+  }
+  return copy;
+}
+
+// Validate a value against the schema subset above. Returns one message per problem, with its path.
+export function validateAgainstSchema(schema: JsonSchema, value: any, path: string = '$'): string[] {
+  const errors: string[] = [];
+
+  if (schema.type) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      return [`${path}: expected ${types.join(' or ')}, got ${describeType(value)}`];
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${path}: must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) errors.push(`${path}: must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) errors.push(`${path}: must be <= ${schema.maximum}`);
+  }
+
+  if (schema.properties && isPlainObject(value)) {
+    for (const key of schema.required || []) {
+      if (!(key in value)) errors.push(`${path}.${key}: missing required property`);
+    }
+    for (const key of Object.keys(schema.properties)) {
+      if (key in value) {
+        errors.push(...validateAgainstSchema(schema.properties[key], value[key], `${path}.${key}`));
+      }
+    }
+  }
+
+  if (schema.items && Array.isArray(value)) {
+    value.forEach((item, index) => {
+      errors.push(...validateAgainstSchema(schema.items!, item, `${path}[${index}]`));
+    });
+  }
+
+  return errors;
+}
+
+// Keep only the parts of a response that pass validation. Invalid top-level fields and
+// invalid line items are dropped and reported, so bad values never reach the form.
+export function sanitizeResponse(schema: JsonSchema, response: any): { value: any; dropped: string[] } {
+  const value: any = {};
+  const dropped: string[] = [];
+  const properties = schema.properties || {};
+
+  for (const key of Object.keys(properties)) {
+    if (!(key in response)) continue;
+    const fieldSchema = properties[key];
+
+    if (fieldSchema.type === 'array' && fieldSchema.items && Array.isArray(response[key])) {
+      value[key] = response[key].filter((item: any, index: number) => {
+        const valid = validateAgainstSchema(fieldSchema.items!, item).length === 0;
+        if (!valid) dropped.push(`${RESPONSE_FIELD_NAMES[key] || key}[${index}]`);
+        return valid;
+      });
+      continue;
+    }
+
+    if (validateAgainstSchema(fieldSchema, response[key]).length === 0) {
+      value[key] = response[key];
+    } else {
+      dropped.push(RESPONSE_FIELD_NAMES[key] || key);
+    }
+  }
+
+  return { value, dropped };
+}
+
+function matchesType(type: string, value: any): boolean {
+  switch (type) {
+    case 'object': return isPlainObject(value);
+    case 'array': return Array.isArray(value);
+    case 'string': return typeof value === 'string';
+    case 'number': return typeof value === 'number' && isFinite(value);
+    case 'boolean': return typeof value === 'boolean';
+    case 'null': return value === null;
+    default: return false;
+  }
+}
+
+function isPlainObject(value: any): boolean {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function describeType(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -0,0 +1,108 @@
+import { PDFDocument } from 'pdf-lib';
+import { PageExtraction, ReceiptSegment, TextLine } from '../types';
+
+// A final total line: "Total", "Grand Total", "Amount Due"... followed by an amount, but not "Subtotal"
+const TOTAL_LINE_PATTERN = /\b(?:grand\s+total|total(?:\s+due)?|amount\s+due|balance\s+due)\b(?!\s*(?:items?|savings|qty|quantity))/i;
+const SUBTOTAL_PATTERN = /\bsub\s*-?\s*total\b/i;
+const AMOUNT_PATTERN = /\d+[.,]\d{2}\b/;
+// A vertical gap this many times the page's typical line spacing separates two stacked receipts
+const RECEIPT_GAP_MULTIPLIER = 3;
+
+interface SegmentBuilder {
+  pages: number[];
+  lines: TextLine[];
+  hasTotal: boolean;
+}
+
+export function isTotalLine(text: string): boolean {
+  return TOTAL_LINE_PATTERN.test(text) && !SUBTOTAL_PATTERN.test(text) && AMOUNT_PATTERN.test(text);
+}
+
+// Split extracted pages into individual receipts. A receipt ends once its total has been
+// seen and either a new page starts or a large vertical gap is followed by another total.
+export function detectReceiptSegments(pages: PageExtraction[]): ReceiptSegment[] {
+  const builders: SegmentBuilder[] = [];
+  let current: SegmentBuilder | null = null;
+
+  const startSegment = (): SegmentBuilder => {
+    const builder: SegmentBuilder = { pages: [], lines: [], hasTotal: false };
+    builders.push(builder);
+    return builder;
+  };
+
+  for (const page of pages) {
+    if (!current || current.hasTotal) {
+      current = startSegment();
+    }
+    const spacing = medianLineSpacing(page.lines);
+
+    page.lines.forEach((line, index) => {
+      if (index > 0 && current!.hasTotal && spacing > 0) {
+        const gap = line.y - page.lines[index - 1].y;
+        const remainingHasTotal = page.lines.slice(index).some((rest) => isTotalLine(rest.text));
+        if (gap > spacing * RECEIPT_GAP_MULTIPLIER && remainingHasTotal) {
+          current = startSegment();
+        }
+      }
+      if (!current!.pages.includes(page.pageNumber)) {
+        current!.pages.push(page.pageNumber);
+      }
+      current!.lines.push(line);
+      if (isTotalLine(line.text)) {
+        current!.hasTotal = true;
+      }
+    });
+
+    // Pages with no recognizable lines still belong to the receipt being built
+    if (page.lines.length === 0 && !current.pages.includes(page.pageNumber)) {
+      current.pages.push(page.pageNumber);
+    }
+  }
+
+  // Fragments without a total (return policies, survey pages, card slips) are merged
+  // into the preceding receipt, or the following one when they come first
+  const merged: SegmentBuilder[] = [];
+  for (const builder of builders) {
+    const previous = merged[merged.length - 1];
+    if (previous && (!builder.hasTotal || !previous.hasTotal)) {
+      previous.lines.push(...builder.lines);
+      builder.pages.forEach((pageNumber) => {
+        if (!previous.pages.includes(pageNumber)) previous.pages.push(pageNumber);
+      });
+      previous.hasTotal = previous.hasTotal || builder.hasTotal;
+    } else {
+      merged.push(builder);
+    }
+  }
+
+  return merged
+    .filter((builder) => builder.pages.length > 0)
+    .map((builder, index) => ({
+      index,
+      pages: builder.pages,
+      pageStart: Math.min(...builder.pages),
+      pageEnd: Math.max(...builder.pages),
+      text: builder.lines.map((line) => line.text).join('\n')
+    }));
+}
+
+// Build a PDF containing only the given (1-based) pages, for attaching a single receipt
+export async function extractPDFPages(file: File, pageNumbers: number[], name: string): Promise<File> {
+  const source = await PDFDocument.load(await file.arrayBuffer());
+  const target = await PDFDocument.create();
+  const copied = await target.copyPages(source, pageNumbers.map((pageNumber) => pageNumber - 1));
+  copied.forEach((page) => target.addPage(page));
+  const pdfBytes = await target.save();
+  return new File([pdfBytes as BlobPart], name, { type: 'application/pdf' });
+}
+
+function medianLineSpacing(lines: TextLine[]): number {
+  const gaps: number[] = [];
+  for (let i = 1; i < lines.length; i++) {
+    const gap = lines[i].y - lines[i - 1].y;
+    if (gap > 0) gaps.push(gap);
+  }
+  if (gaps.length === 0) return 0;
+  gaps.sort((a, b) => a - b);
+  return gaps[Math.floor(gaps.length / 2)];
+}
@@ -0,0 +1,171 @@
+// Masks personal data in receipt text before it is sent to the AI provider. The rule-based
+// parser still sees the original text - it never leaves the browser.
+
+const SETTINGS_KEY = 'redactionSettings';
+
+export interface CustomRedactionRule {
+  label: string;
+  pattern: string; // Regular expression source, matched case-insensitively
+  replacement: string;
+}
+
+export interface RedactionSettings {
+  enabled: boolean;
+  disabledRules: string[]; // Ids of built-in rules the user turned off
+  customRules: CustomRedactionRule[];
+  sendReceiptImage: boolean; // Opt-in: the photo can't be redacted, so it's withheld while redaction is on
+}
+
+export interface RedactionResult {
+  text: string;
+  counts: { [label: string]: number }; // Matches masked per rule
+}
+
+interface BuiltInRule {
+  id: string;
+  label: string;
+  description: string;
+  pattern: RegExp;
+  replace: (match: string, ...groups: string[]) => string;
+  accept?: (match: string, lines: string) => boolean; // Rejects a pattern match that isn't really this kind of data
+}
+
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: true,
+  disabledRules: [],
+  customRules: [],
+  sendReceiptImage: false
+};
+
+const STREET_SUFFIXES = 'street|st|avenue|ave|road|rd|boulevard|blvd|drive|lane|ln|place|court|terrace|parkway|pkwy|highway|hwy|square|way';
+// Abbreviations that are also item wording ("2 Dr Pepper", "Eggs 12 ct") - only an address
+// when the line has a city, state or ZIP
+const WEAK_STREET_SUFFIXES = 'dr|ct|pl|ter|sq';
+const STREET_WORD_PATTERN = new RegExp(`\\b(?:${STREET_SUFFIXES})\\b`, 'i');
+const ZIP_PATTERN = /\b\d{5}(?:-\d{4})?\b/;
+const CITY_STATE_PATTERN = /,\s*[A-Za-z][A-Za-z .'-]*,?\s+[A-Z]{2}\b/;
+
+function looksLikeAddressLine(match: string, lines: string): boolean {
+  return STREET_WORD_PATTERN.test(match) || ZIP_PATTERN.test(lines) || CITY_STATE_PATTERN.test(lines);
+}
+
+// Card numbers pass the Luhn checksum; order and transaction numbers almost never do
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = +digits[digits.length - 1 - i];
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Order matters: emails before phone numbers (digits in the local part), cards before phones
+export const BUILT_IN_RULES: BuiltInRule[] = [
+  {
+    id: 'email',
+    label: 'Email addresses',
+    description: 'name@example.com',
+    pattern: /\b[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}\b/gi,
+    replace: () => '[EMAIL]'
+  },
+  {
+    id: 'card',
+    label: 'Card numbers',
+    description: 'Full 13-19 digit card numbers that pass the card checksum - the last 4 digits are kept to infer the payment method',
+    pattern: /\b(?:\d[ -]?){12,18}\d\b/g,
+    replace: (match) => `[CARD ****${match.replace(/\D/g, '').slice(-4)}]`,
+    accept: (match) => passesLuhn(match.replace(/\D/g, ''))
+  },
+  {
+    id: 'phone',
+    label: 'Phone numbers',
+    description: '(212) 555-0100, +1 212.555.0100',
+    pattern: /(?:\+?1[\s.-]?)?\(?\b\d{3}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g,
+    replace: () => '[PHONE]'
+  },
+  {
+    id: 'address',
+    label: 'Street addresses',
+    description: 'House number and street, including apartment or suite',
+    // Spaces only, not line breaks, and not starting inside an amount like 12.00
+    pattern: new RegExp(
+      `(?<![\\d.,])\\b\\d{1,6}[A-Z]?[ \\t]+(?:[A-Z0-9.'-]+[ \\t]+){0,4}(?:${STREET_SUFFIXES}|${WEAK_STREET_SUFFIXES})\\b\\.?(?:,?[ \\t]*(?:apt|apartment|suite|ste|unit|fl|floor|#)\\.?[ \\t]*[\\w-]+)?`,
+      'gi'
+    ),
+    replace: () => '[ADDRESS]',
+    accept: looksLikeAddressLine
+  },
+  {
+    id: 'loyalty',
+    label: 'Loyalty and member IDs',
+    description: 'Rewards, member, loyalty and account numbers (the label is kept)',
+    pattern: /\b((?:loyalty|rewards?|member(?:ship)?|account|acct|customer)\s*(?:id|no\.?|number|#)?\s*[:#]?\s*)((?=[A-Z0-9-]*\d)[A-Z0-9][A-Z0-9-]{4,})\b/gi,
+    replace: (match, label) => `${label}[MEMBER ID]`
+  }
+];
+
+export async function loadRedactionSettings(): Promise<RedactionSettings> {
+  const storage = await chrome.storage.sync.get([SETTINGS_KEY]);
+  return { ...DEFAULT_REDACTION_SETTINGS, ...storage[SETTINGS_KEY] };
+}
+
+export async function saveRedactionSettings(settings: RedactionSettings): Promise<void> {
+  await chrome.storage.sync.set({ [SETTINGS_KEY]: settings });
+}
+
+// Whether a receipt photo goes to vision-capable models along with the redacted text
+export function shouldSendReceiptImage(settings: RedactionSettings): boolean {
+  return !settings.enabled || settings.sendReceiptImage;
+}
+
+// Returns an error message for an unusable custom rule pattern
+export function validateCustomRule(rule: CustomRedactionRule): string | null {
+  if (!rule.pattern.trim()) return `"${rule.label || 'Custom rule'}" needs a pattern`;
+  try {
+    if (new RegExp(rule.pattern, 'i').test('')) {
+      return `"${rule.label || rule.pattern}" matches empty text`;
+    }
+  } catch (error) {
+    return `"${rule.label || rule.pattern}" is not a valid regular expression`;
+  }
+  return null;
+}
+
+export function redactReceiptText(text: string, settings: RedactionSettings): RedactionResult {
+  const counts: { [label: string]: number } = {};
+  if (!settings.enabled) return { text, counts };
+
+  let redacted = text;
+  const count = (label: string) => {
+    counts[label] = (counts[label] || 0) + 1;
+  };
+
+  for (const rule of BUILT_IN_RULES) {
+    if (settings.disabledRules.includes(rule.id)) continue;
+    redacted = redacted.replace(rule.pattern, (match: string, ...groups: any[]) => {
+      // The replacer's trailing arguments are the match offset and the whole string
+      const offset: number = groups[groups.length - 2];
+      const whole: string = groups[groups.length - 1];
+      const lineStart = whole.lastIndexOf('\n', offset - 1) + 1;
+      // The match's line and the next one, where a receipt prints the city and ZIP
+      const lines = whole.slice(lineStart, offset) + whole.slice(offset).split('\n').slice(0, 2).join('\n');
+      if (rule.accept && !rule.accept(match, lines)) return match;
+      count(rule.label);
+      return rule.replace(match, ...groups.slice(0, -2).filter((group) => typeof group === 'string'));
+    });
+  }
+
+  for (const rule of settings.customRules) {
+    if (validateCustomRule(rule)) continue; // Invalid rules are skipped rather than breaking parsing
+    redacted = redacted.replace(new RegExp(rule.pattern, 'gi'), () => {
+      count(rule.label || 'Custom rule');
+      return rule.replacement || '[REDACTED]';
+    });
+  }
+
+  return { text: redacted, counts };
+}
@@ -0,0 +1,140 @@
+import { ParsedExpenseData, ReviewMode } from '../types';
+import { CONFIDENCE_THRESHOLD } from './constants';
+
+// The side panel's review-before-fill step: every parsed field shown with its confidence and
+// where on the receipt it came from, editable before anything is written to the page.
+
+export const DEFAULT_REVIEW_MODE: ReviewMode = 'low_confidence';
+
+export const REVIEW_MODES: { [mode in ReviewMode]: string } = {
+  low_confidence: `When a field is below ${Math.round(CONFIDENCE_THRESHOLD * 100)}% confidence`,
+  always: 'Always',
+  never: 'Never - fill the form right away'
+};
+
+export type ReviewFieldKey =
+  | 'purchaser_name'
+  | 'netid'
+  | 'club_name'
+  | 'payment_method'
+  | 'vendor_name'
+  | 'date_of_expense'
+  | 'total_amount'
+  | 'purchase_type'
+  | 'event_link'
+  | 'description';
+
+export interface ReviewField {
+  key: ReviewFieldKey;
+  label: string;
+  kind: 'text' | 'amount' | 'date' | 'choice' | 'long_text';
+  origin: 'receipt' | 'profile' | 'generated';
+  optional?: boolean; // Often has no value (e.g. no Engage event matched) - an empty one isn't a reason to review
+}
+
+export const REVIEW_FIELDS: ReviewField[] = [
+  { key: 'purchaser_name', label: 'Purchaser Name', kind: 'text', origin: 'profile' },
+  { key: 'netid', label: 'NetID', kind: 'text', origin: 'profile' },
+  { key: 'club_name', label: 'Club/Organization', kind: 'text', origin: 'profile' },
+  { key: 'payment_method', label: 'Payment Method', kind: 'choice', origin: 'receipt' },
+  { key: 'vendor_name', label: 'Vendor Name', kind: 'text', origin: 'receipt' },
+  { key: 'date_of_expense', label: 'Date of Expense', kind: 'date', origin: 'receipt' },
+  { key: 'total_amount', label: 'Expense Amount', kind: 'amount', origin: 'receipt' },
+  { key: 'purchase_type', label: 'Purchase Type', kind: 'choice', origin: 'receipt' },
+  { key: 'event_link', label: 'Event Link', kind: 'text', origin: 'generated', optional: true },
+  { key: 'description', label: 'Description', kind: 'long_text', origin: 'generated' }
+];
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MAX_SNIPPET_LENGTH = 80;
+
+export function shouldReviewBeforeFill(data: ParsedExpenseData, mode: ReviewMode = DEFAULT_REVIEW_MODE): boolean {
+  if (mode === 'always') return true;
+  if (mode === 'never') return false;
+  return REVIEW_FIELDS.some((field) =>
+    !(field.optional && formatReviewValue(data[field.key].value).trim() === '') &&
+    data[field.key].confidence < CONFIDENCE_THRESHOLD
+  );
+}
+
+// The receipt line a value was read from, or undefined when it isn't printed on the receipt
+export function findSourceSnippet(receiptText: string, field: ReviewField, value: string | number | null): string | undefined {
+  const text = String(value ?? '').trim();
+  if (!text || field.origin !== 'receipt') return undefined;
+  const lines = receiptText.split('\n').map((line) => line.replace(/\s+/g, ' ').trim()).filter((line) => line !== '');
+
+  let matches: string[];
+  if (field.kind === 'amount') {
+    const amount = parseFloat(text.replace(/[^0-9.-]/g, ''));
+    if (isNaN(amount)) return undefined;
+    const printed = [amount.toFixed(2), amount.toLocaleString('en-US', { minimumFractionDigits: 2 })];
+    matches = lines.filter((line) => printed.some((candidate) => line.includes(candidate)));
+    // The total is usually printed more than once (total, card charge) - prefer its labelled line
+    matches = matches.filter((line) => /total/i.test(line) && !/sub\s*-?total/i.test(line)).concat(matches);
+  } else if (field.kind === 'date') {
+    matches = lines.filter((line) => dateVariants(text).some((variant) => variant.test(line)));
+  } else {
+    const needle = text.toLowerCase();
+    matches = lines.filter((line) => line.toLowerCase().includes(needle));
+    if (matches.length === 0) {
+      // Labels such as "Club Card (no extra funding)" aren't printed - look for their longest word
+      const word = needle.split(/[^a-z0-9]+/).sort((a, b) => b.length - a.length)[0];
+      if (word && word.length >= 4) {
+        matches = lines.filter((line) => line.toLowerCase().includes(word));
+      }
+    }
+  }
+
+  const line = matches[0];
+  if (!line) return undefined;
+  return line.length > MAX_SNIPPET_LENGTH ? `${line.slice(0, MAX_SNIPPET_LENGTH)}...` : line;
+}
+
+// How a YYYY-MM-DD date may be printed: 03/14/2025, 3/14/25, 2025-03-14, Mar 14, 14 Mar
+function dateVariants(isoDate: string): RegExp[] {
+  const match = isoDate.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return [new RegExp(isoDate.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i')];
+  const [, year, month, day] = match;
+  const m = String(parseInt(month, 10));
+  const d = String(parseInt(day, 10));
+  const monthName = MONTHS[parseInt(month, 10) - 1];
+  return [
+    new RegExp(`\\b0?${m}[/.-]0?${d}[/.-](${year}|${year.slice(2)})\\b`),
+    new RegExp(`\\b${year}[/.-]${month}[/.-]${day}\\b`),
+    new RegExp(`\\b${monthName}[a-z]*\\.?\\s+0?${d}\\b`, 'i'),
+    new RegExp(`\\b0?${d}\\s+${monthName}`, 'i')
+  ];
+}
+
+// The parsed data with the user's edits applied. An edited value is the user's own, so it is
+// filled with full confidence and loses the model's review note (and, for the total, the amount
+// cross-check); untouched fields keep the model's confidence and highlighting.
+export function applyReviewEdits(data: ParsedExpenseData, values: { [key in ReviewFieldKey]?: string }): ParsedExpenseData {
+  const edited: ParsedExpenseData = { ...data, review_notes: data.review_notes && { ...data.review_notes } };
+  const update = <K extends ReviewFieldKey>(key: K, value: ParsedExpenseData[K]['value']) => {
+    edited[key] = { ...edited[key], value, confidence: 1 };
+    delete edited.review_notes?.[key];
+  };
+
+  for (const field of REVIEW_FIELDS) {
+    const value = values[field.key];
+    if (value === undefined || value === formatReviewValue(data[field.key].value)) continue;
+    if (field.key === 'total_amount') {
+      update(field.key, parseReviewAmount(value));
+      delete edited.amount_check;
+    } else {
+      update(field.key, value.trim());
+    }
+  }
+  return edited;
+}
+
+// A cleared or unreadable amount is null, never an empty string
+function parseReviewAmount(value: string): number | null {
+  const amount = parseFloat(value.replace(/[^0-9.-]/g, ''));
+  return isNaN(amount) ? null : amount;
+}
+
+export function formatReviewValue(value: string | number | null | undefined): string {
+  return value === null || value === undefined ? '' : String(value);
+}
@@ -0,0 +1,126 @@
+import { FieldMapping, FieldTransform, WidgetKind } from './fieldMappings';
+
+// Fields the user mapped by clicking them in teach mode, for questions the built-in field
+// mappings don't find. They are saved per form page - its URL path plus the questions they were
+// taught on - and filled alongside that page's built-in mappings.
+
+const STORAGE_KEY = 'taughtFieldMappings';
+
+export interface TaughtField {
+  label: string; // The question's label text when it was taught
+  mapping: FieldMapping;
+}
+
+export interface TaughtPage {
+  path: string;
+  fingerprint: string; // Of the page's questions when first taught - identifies the page in Options
+  title: string; // Shown in Options
+  fields: TaughtField[];
+  updatedAt: number;
+}
+
+// Values a field can be taught to take, as shown in the teach picker
+export const TEACHABLE_SOURCES: { key: string; label: string }[] = [
+  { key: 'purchaser_name', label: 'Profile: name' },
+  { key: 'netid', label: 'Profile: NetID' },
+  { key: 'club_name', label: 'Profile: club' },
+  { key: 'payment_method', label: 'Payment method' },
+  { key: 'vendor_name', label: 'Vendor name' },
+  { key: 'date_of_expense', label: 'Date of expense' },
+  { key: 'total_amount', label: 'Total amount' },
+  { key: 'subtotal', label: 'Subtotal' },
+  { key: 'tax', label: 'Tax' },
+  { key: 'tip', label: 'Tip' },
+  { key: 'shipping', label: 'Shipping' },
+  { key: 'discount', label: 'Discount' },
+  { key: 'purchase_type', label: 'Purchase type' },
+  { key: 'event_link', label: 'Event link' },
+  { key: 'description', label: 'Description' }
+];
+
+const DATE_SOURCES = ['date_of_expense'];
+const AMOUNT_SOURCES = ['total_amount', 'subtotal', 'tax', 'tip', 'shipping', 'discount'];
+
+function normalizeLabel(label: string): string {
+  return label.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+// Identifies a form page by its set of questions, independent of their order
+export function labelFingerprint(labels: string[]): string {
+  const text = Array.from(new Set(labels.map(normalizeLabel))).sort().join('|');
+  let hash = 5381;
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+}
+
+// A mapping that finds the taught question by its exact label
+export function buildTaughtMapping(label: string, source: string, widget: WidgetKind): FieldMapping {
+  const text = label.replace(/\s+/g, ' ').trim();
+  const transform: FieldTransform = DATE_SOURCES.includes(source) ? 'date' : AMOUNT_SOURCES.includes(source) ? 'amount' : 'none';
+  return {
+    fieldName: text.length > 40 ? `${text.slice(0, 40)}...` : text,
+    labelPattern: `^${text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`,
+    widget,
+    source,
+    transform,
+    fillPolicy: source === 'description' ? 'always' : 'confidence'
+  };
+}
+
+export async function loadTaughtPages(): Promise<TaughtPage[]> {
+  const storage = await chrome.storage.local.get([STORAGE_KEY]);
+  return storage[STORAGE_KEY] || [];
+}
+
+// The taught page at this path whose questions are all still on the page. Conditional
+// questions come and go with earlier answers, so the page's other questions can differ from
+// when it was taught; of several matches, the one with the most taught fields wins.
+export function findTaughtPage(pages: TaughtPage[], path: string, labels: string[]): TaughtPage | undefined {
+  const present = new Set(labels.map(normalizeLabel));
+  return pages
+    .filter((page) => page.path === path && page.fields.length > 0)
+    .filter((page) => page.fields.every((field) => present.has(normalizeLabel(field.label))))
+    .sort((a, b) => b.fields.length - a.fields.length || b.updatedAt - a.updatedAt)[0];
+}
+
+// Add or replace the mapping for one question; returns the page's taught fields
+export async function saveTaughtField(
+  path: string,
+  labels: string[], // The questions on the page
+  title: string,
+  field: TaughtField
+): Promise<TaughtField[]> {
+  const pages = await loadTaughtPages();
+  let page = findTaughtPage(pages, path, labels);
+  if (!page) {
+    page = { path, fingerprint: labelFingerprint(labels), title, fields: [], updatedAt: 0 };
+    pages.push(page);
+  }
+  const label = normalizeLabel(field.label);
+  page.fields = [...page.fields.filter((existing) => normalizeLabel(existing.label) !== label), field];
+  page.title = title || page.title;
+  page.updatedAt = Date.now();
+  await chrome.storage.local.set({ [STORAGE_KEY]: pages });
+  return page.fields;
+}
+
+export async function removeTaughtPage(path: string, fingerprint: string): Promise<TaughtPage[]> {
+  const pages = (await loadTaughtPages()).filter((page) => !(page.path === path && page.fingerprint === fingerprint));
+  await chrome.storage.local.set({ [STORAGE_KEY]: pages });
+  return pages;
+}
+
+export async function clearTaughtPages(): Promise<void> {
+  await chrome.storage.local.remove(STORAGE_KEY);
+}
+
+// A page's mappings: the taught ones first, then the built-in ones for questions that weren't re-taught
+export function mergeTaughtMappings(builtIn: FieldMapping[], taught: TaughtField[]): FieldMapping[] {
+  const remaining = builtIn.filter((mapping) => {
+    const pattern = new RegExp(mapping.labelPattern, 'i');
+    return !taught.some((field) => pattern.test(field.label.replace(/\s+/g, ' ').trim()));
+  });
+  return [...taught.map((field) => field.mapping), ...remaining];
+}
@@ -0,0 +1,149 @@
+import { TokenUsage } from '../types';
+
+// Token usage and estimated cost of every AI parse. Records live in chrome.storage.local;
+// the price table and the monthly cap are settings in chrome.storage.sync.
+
+const LOG_KEY = 'usageLog';
+const SETTINGS_KEY = 'usageSettings';
+// Keep a bit over a year of history for the monthly totals
+const MAX_RECORD_AGE_MS = 400 * 24 * 60 * 60 * 1000;
+const MAX_RECORDS = 2000;
+
+export interface ModelPrice {
+  input: number; // USD per 1M prompt tokens
+  output: number; // USD per 1M completion tokens
+}
+
+export type PriceTable = { [model: string]: ModelPrice };
+
+export interface UsageSettings {
+  prices: PriceTable;
+  monthlyCap?: number; // USD - parsing is blocked once this month's estimated spend reaches it
+}
+
+export interface UsageRecord {
+  timestamp: number;
+  provider: string;
+  model: string;
+  vendor: string;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number | null; // null when the model isn't in the price table
+}
+
+export interface UsageTotals {
+  parses: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  unpricedParses: number;
+}
+
+// List prices at the time of writing - edit them in Options if your rates differ
+export const DEFAULT_PRICES: PriceTable = {
+  'gpt-4o': { input: 2.5, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6 },
+  'meta-llama/llama-3-3-70b-instruct': { input: 0.71, output: 0.71 },
+  'llama3.1': { input: 0, output: 0 }
+};
+
+export async function loadUsageSettings(): Promise<UsageSettings> {
+  const storage = await chrome.storage.sync.get([SETTINGS_KEY]);
+  return { prices: DEFAULT_PRICES, ...storage[SETTINGS_KEY] };
+}
+
+export async function saveUsageSettings(settings: UsageSettings): Promise<void> {
+  await chrome.storage.sync.set({ [SETTINGS_KEY]: settings });
+}
+
+// Exact model match first, then the longest table entry the model name starts with
+// (so "gpt-4o-2024-08-06" uses the "gpt-4o" price)
+export function findModelPrice(model: string, prices: PriceTable): ModelPrice | null {
+  const name = model.toLowerCase();
+  if (prices[name]) return prices[name];
+  const prefix = Object.keys(prices)
+    .filter((key) => name.startsWith(key.toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+export function estimateCost(model: string, usage: TokenUsage, prices: PriceTable): number | null {
+  const price = findModelPrice(model, prices);
+  if (!price) return null;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1000000;
+}
+
+export async function recordUsage(record: Omit<UsageRecord, 'cost'>): Promise<UsageRecord> {
+  const { prices } = await loadUsageSettings();
+  const entry: UsageRecord = {
+    ...record,
+    cost: estimateCost(record.model, record, prices)
+  };
+
+  const now = Date.now();
+  const log = (await loadUsageLog())
+    .filter((existing) => now - existing.timestamp <= MAX_RECORD_AGE_MS)
+    .concat(entry)
+    .slice(-MAX_RECORDS);
+  await chrome.storage.local.set({ [LOG_KEY]: log });
+  return entry;
+}
+
+export async function loadUsageLog(): Promise<UsageRecord[]> {
+  const storage = await chrome.storage.local.get([LOG_KEY]);
+  return storage[LOG_KEY] || [];
+}
+
+export async function clearUsageLog(): Promise<void> {
+  await chrome.storage.local.remove(LOG_KEY);
+}
+
+export function summarizeUsage(records: UsageRecord[], since: Date): UsageTotals {
+  const totals: UsageTotals = { parses: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpricedParses: 0 };
+  for (const record of records) {
+    if (record.timestamp < since.getTime()) continue;
+    totals.parses++;
+    totals.promptTokens += record.promptTokens;
+    totals.completionTokens += record.completionTokens;
+    if (record.cost === null) {
+      totals.unpricedParses++;
+    } else {
+      totals.cost += record.cost;
+    }
+  }
+  return totals;
+}
+
+export function startOfToday(): Date {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+}
+
+export function startOfMonth(): Date {
+  const now = new Date();
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+}
+
+// Throws when this month's estimated spend has reached the configured cap, or when the model
+// has no price - its spend couldn't be counted toward the cap
+export async function assertUnderMonthlyCap(model: string): Promise<void> {
+  const { monthlyCap, prices } = await loadUsageSettings();
+  if (!monthlyCap) return;
+
+  if (!findModelPrice(model, prices)) {
+    throw new Error(
+      `"${model}" has no price in Options, so its spend can't be counted toward the monthly cap. ` +
+      'Add a price for it under Usage & Cost, or remove the cap.'
+    );
+  }
+
+  const spent = summarizeUsage(await loadUsageLog(), startOfMonth()).cost;
+  if (spent >= monthlyCap) {
+    throw new Error(
+      `This month's estimated AI spend ($${spent.toFixed(2)}) has reached the $${monthlyCap.toFixed(2)} cap set in Options. ` +
+      'Raise the cap or wait until next month.'
+    );
+  }
+}
@@ -55,6 +55,19 @@ module.exports = {
         {
           from: 'node_modules/pdfjs-dist/build/pdf.worker.min.js',
           to: 'pdf.worker.min.js'
+        },
+        // Offline OCR engine for scanned receipts (see src/utils/ocr.ts)
+        {
+          from: 'node_modules/tesseract.js/dist/worker.min.js',
+          to: 'tesseract/worker.min.js'
+        },
+        {
+          from: 'node_modules/tesseract.js-core/tesseract-core*.wasm.js',
+          to: 'tesseract/core/[name][ext]'
+        },
+        {
+          from: 'node_modules/@tesseract.js-data/eng/4.0.0_best_int/eng.traineddata.gz',
+          to: 'tesseract/lang/eng.traineddata.gz'
         }
       ]
     })